@@ -1,63 +1,291 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { GameCanvas } from './components/GameCanvas';
 import { UIOverlay } from './components/UIOverlay';
-import { GameState, PlayerStats, AnomalyEvent } from './types';
-import { generateAnomaly } from './services/geminiService';
+import { GameState, PlayerStats, AnomalyEvent, AnomalyOutcome, UpgradeId, Announcement, Settings, GameMode, RunSummary, RunRecord, Records } from './types';
+import { createAnomalyQueue, prefetchAnomaly, resetAnomalyQueue, takeAnomaly } from './services/anomalyQueue';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { addHighScore, addRunRecord, getPersonalBest, isHighScore, loadRecords } from './services/recordsService';
+import { pauseAudio, resumeAudio, setSoundEnabled, setVolumes, unlockAudio } from './services/audioService';
+import { setMusicMood, startMusic, stopMusic } from './services/musicService';
+import { getGamepad } from './services/gamepadService';
+import { SaveGame, clearSave, createSave, loadSave, writeSave } from './services/saveService';
+import { exportReplay, readReplayFile } from './services/replayService';
+import { applyInstantEffects, getAnomalyStage, rollOutcome } from './game/anomalies';
+import { getEffectModifier } from './game/effects';
+import { createInitialStats } from './game/playerStats';
+import { getShipModifiers, getUpgradeCost } from './game/upgrades';
+import { World, applyTimedEffect, restoreWorld } from './game/world';
+import { Replay, ReplayControl, ReplayPlayer, ReplayView, createReplayPlayer, recordCommand, seekReplay } from './game/replay';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from './constants';
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(GameState.LOADING);
-  const [stats, setStats] = useState<PlayerStats>({
-    health: 100,
-    maxHealth: 100,
-    scrap: 0,
-    score: 0,
-    level: 1
-  });
+  const [gameState, setGameState] = useState<GameState>(GameState.MENU);
+  const [stats, setStats] = useState<PlayerStats>(createInitialStats);
   const [currentAnomaly, setCurrentAnomaly] = useState<AnomalyEvent | null>(null);
   const [loadingAnomaly, setLoadingAnomaly] = useState(false);
+  const [anomalyStage, setAnomalyStage] = useState<string | null>(null); // Null for the opening stage
+  const [anomalyOutcome, setAnomalyOutcome] = useState<AnomalyOutcome | null>(null); // Shown until the player moves on
   const [anomalyEffectApplied, setAnomalyEffectApplied] = useState<AnomalyEvent | null>(null); // Trigger ref updates
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const announcementTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [runId, setRunId] = useState(0); // Bumped to make GameCanvas start a fresh run
+  const [mode, setMode] = useState<GameMode>(GameMode.ENDLESS);
+  const [records, setRecords] = useState<Records>(loadRecords);
+  const [lastRun, setLastRun] = useState<RunRecord | null>(null);
+  const [previousBest, setPreviousBest] = useState(0);
+  const [scoreSaved, setScoreSaved] = useState(false);
+  const anomalyLog = useRef<string[]>([]); // Choices made this run, for the run history
+  const world = useRef<World | null>(null); // The running simulation, driven by GameCanvas
+  const latestStats = useRef(stats); // For saves made from event listeners
+  const latestSettings = useRef(settings); // For anomalies generated from stable callbacks
+  const anomalyQueue = useRef(createAnomalyQueue()); // Anomalies generated ahead of time for this run
+  const [savedRun, setSavedRun] = useState<SaveGame | null>(loadSave);
+  const recording = useRef<Replay | null>(null); // Filled in by GameCanvas as the run plays
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const replayPlayer = useRef<ReplayPlayer | null>(null);
+  const [replayView, setReplayView] = useState<ReplayView>({ tick: 0, paused: false, speed: 1 }); // Mirrors the player for the controls
+  const [controller, setController] = useState(() => getGamepad() !== null); // Prompts show pad buttons while one is connected
 
-  const startGame = () => {
+  useEffect(() => {
+    latestStats.current = stats;
+  }, [stats]);
+
+  useEffect(() => {
+    latestSettings.current = settings;
+  }, [settings]);
+
+  // Snapshots the run so it can be continued after a refresh or a closed tab
+  const saveRun = useCallback((state: GameState) => {
+    if (!world.current || world.current.player.health <= 0) return;
+    const save = createSave(world.current, latestStats.current, anomalyLog.current, state, recording.current);
+    writeSave(save);
+    setSavedRun(save);
+  }, []);
+
+  const discardSave = useCallback(() => {
+    clearSave();
+    setSavedRun(null);
+  }, []);
+
+  const startGame = (nextMode: GameMode) => {
+    unlockAudio();
+    setMode(nextMode);
     setGameState(GameState.PLAYING);
-    setStats({
-      health: 100,
-      maxHealth: 100,
-      scrap: 0,
-      score: 0,
-      level: 1
-    });
+    setStats(createInitialStats(nextMode));
+    anomalyLog.current = [];
+    resetAnomalyQueue(anomalyQueue.current);
+    discardSave();
+    setRunId(id => id + 1);
   };
 
-  // Simulate initial loading
-  useEffect(() => {
-    if (gameState === GameState.LOADING) {
-      const timer = setTimeout(() => {
-        startGame();
-      }, 2000);
-      return () => clearTimeout(timer);
+  const restartGame = () => {
+    setGameState(GameState.PLAYING);
+    setStats(createInitialStats(mode));
+    setCurrentAnomaly(null);
+    anomalyLog.current = [];
+    resetAnomalyQueue(anomalyQueue.current);
+    discardSave();
+    setRunId(id => id + 1); // GameCanvas re-inits entities
+  };
+
+  // Picks the saved run back up, paused so the player can get their bearings
+  const continueGame = () => {
+    if (!savedRun) return;
+    unlockAudio();
+    const arena = { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+    world.current = restoreWorld(savedRun.world, arena);
+    recording.current = savedRun.replay && JSON.parse(JSON.stringify(savedRun.replay));
+    const { width, height } = savedRun.world.arena;
+    if (recording.current && (width !== arena.width || height !== arena.height)) {
+      recordCommand(recording.current, { tick: world.current.clock.tick, type: 'ARENA', arena });
     }
-  }, [gameState]);
+    setMode(savedRun.world.mode);
+    setStats(savedRun.stats);
+    setCurrentAnomaly(null);
+    anomalyLog.current = [...savedRun.anomalies];
+    resetAnomalyQueue(anomalyQueue.current);
+    // The core or beacon was already used up, so reopen what the save interrupted
+    if (savedRun.state === GameState.ANOMALY) openAnomaly(savedRun.stats.level, savedRun.stats.scrap);
+    else setGameState(savedRun.state === GameState.SHOP ? GameState.SHOP : GameState.PAUSED);
+  };
 
-  const restartGame = () => {
+  // Called by GameCanvas when the ship is destroyed or the mode's goal is reached
+  const endRun = useCallback((summary: RunSummary) => {
+    setLastRun({ ...summary, date: Date.now(), anomalies: anomalyLog.current });
+    setLastReplay(recording.current && { ...JSON.parse(JSON.stringify(recording.current)), result: summary });
+    setScoreSaved(false);
+    setGameState(GameState.GAME_OVER);
+    discardSave();
+  }, [discardSave]);
+
+  // File the finished run, remembering the old best so the game-over screen can compare
+  useEffect(() => {
+    if (!lastRun) return;
+    setPreviousBest(getPersonalBest(records, lastRun.mode));
+    setRecords(addRunRecord(records, lastRun));
+  }, [lastRun]);
+
+  const handleSubmitInitials = (initials: string) => {
+    if (!lastRun) return;
+    const { score, mode: runMode, wave, level, date } = lastRun;
+    setRecords(addHighScore(records, { initials, score, mode: runMode, wave, level, date }));
+    setScoreSaved(true);
+  };
+
+  const watchReplay = (replay: Replay) => {
+    replayPlayer.current = createReplayPlayer(replay);
+    syncReplayView(replayPlayer.current);
+    setGameState(GameState.REPLAY);
+  };
+
+  const handleImportReplay = async (file: File) => {
+    watchReplay(await readReplayFile(file));
+  };
+
+  const handleExportReplay = () => {
+    if (lastReplay) exportReplay(lastReplay);
+  };
+
+  const syncReplayView = useCallback((player: ReplayPlayer) => {
+    setReplayView({ tick: player.world.clock.tick, paused: player.paused, speed: player.speed });
+  }, []);
+
+  // Playback controls change the player directly and then refresh the mirrored view
+  const handleReplayControl = (change: ReplayControl) => {
+    const player = replayPlayer.current;
+    if (!player) return;
+    const { seek, ...settings } = change;
+    Object.assign(player, settings);
+    if (seek !== undefined) seekReplay(player, seek);
+    // Playing again from the very end starts over
+    if (change.paused === false && player.world.clock.tick >= player.length) seekReplay(player, 0);
+    syncReplayView(player);
+  };
+
+  const exitReplay = () => {
+    replayPlayer.current = null;
+    setGameState(lastRun ? GameState.GAME_OVER : GameState.MENU);
+  };
+
+  const pauseGame = useCallback(() => {
+    setGameState(state => state === GameState.PLAYING ? GameState.PAUSED : state);
+  }, []);
+
+  const resumeGame = () => {
     setGameState(GameState.PLAYING);
-    setStats({
-      health: 100,
-      maxHealth: 100,
-      scrap: 0,
-      score: 0,
-      level: 1
-    });
+  };
+
+  const quitToMenu = () => {
+    setGameState(GameState.MENU);
     setCurrentAnomaly(null);
-    // Logic inside GameCanvas will re-init entities
+    resetAnomalyQueue(anomalyQueue.current);
+  };
+
+  const handleSettingsChange = (next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
   };
 
-  const handleTriggerAnomaly = useCallback(async () => {
+  useEffect(() => {
+    setSoundEnabled(settings.soundEnabled);
+  }, [settings.soundEnabled]);
+
+  useEffect(() => {
+    setVolumes({ master: settings.masterVolume, sfx: settings.sfxVolume, music: settings.musicVolume });
+  }, [settings.masterVolume, settings.sfxVolume, settings.musicVolume]);
+
+  const togglePause = useCallback(() => {
+    setGameState(state => {
+      if (state === GameState.PLAYING) return GameState.PAUSED;
+      if (state === GameState.PAUSED) return GameState.PLAYING;
+      return state;
+    });
+  }, []);
+
+  // The pause keys (Escape / P unless rebound) toggle the pause menu, Start on a controller (see GameCanvas)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!latestSettings.current.bindings.PAUSE.includes(e.code)) return;
+      if (e.target instanceof HTMLInputElement) return; // Typing a P into a settings field
+      togglePause();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePause]);
+
+  // Browsers only report a controller once one of its buttons has been pressed
+  useEffect(() => {
+    const handleChange = () => setController(getGamepad() !== null);
+    window.addEventListener('gamepadconnected', handleChange);
+    window.addEventListener('gamepaddisconnected', handleChange);
+    return () => {
+      window.removeEventListener('gamepadconnected', handleChange);
+      window.removeEventListener('gamepaddisconnected', handleChange);
+    };
+  }, []);
+
+  // Pause by itself when the player switches tabs or windows
+  useEffect(() => {
+    if (!settings.autoPause) return;
+    const handleVisibility = () => {
+      if (document.hidden) pauseGame();
+    };
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('blur', pauseGame);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [settings.autoPause, pauseGame]);
+
+  // Autosave whenever the run stops for the player
+  useEffect(() => {
+    if (gameState === GameState.PAUSED || gameState === GameState.ANOMALY) saveRun(gameState);
+  }, [gameState, saveRun]);
+
+  // ...and when the tab is hidden, which may be the last chance before it closes
+  useEffect(() => {
+    if (gameState === GameState.MENU || gameState === GameState.GAME_OVER || gameState === GameState.REPLAY) return;
+    const handleVisibility = () => {
+      if (document.hidden) saveRun(gameState);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [gameState, saveRun]);
+
+  // The game clock only runs while PLAYING, audio is frozen to match
+  useEffect(() => {
+    if (gameState === GameState.PAUSED) pauseAudio();
+    else resumeAudio();
+  }, [gameState]);
+
+  // The soundtrack runs for the whole run, eerie while an anomaly is open, and stops in the menus
+  useEffect(() => {
+    setMusicMood(gameState === GameState.ANOMALY ? 'EERIE' : 'COMBAT');
+    const inRun = gameState === GameState.PLAYING || gameState === GameState.PAUSED || gameState === GameState.ANOMALY || gameState === GameState.SHOP;
+    if (inRun) startMusic();
+    else stopMusic();
+  }, [gameState]);
+
+  // Banners replace each other and clear themselves after a moment
+  const announce = useCallback((title: string, subtitle?: string) => {
+    clearTimeout(announcementTimer.current);
+    setAnnouncement({ id: Date.now(), title, subtitle });
+    announcementTimer.current = setTimeout(() => setAnnouncement(null), 2500);
+  }, []);
+
+  useEffect(() => () => clearTimeout(announcementTimer.current), []);
+
+  const openAnomaly = useCallback(async (level: number, scrap: number) => {
     setGameState(GameState.ANOMALY);
     setLoadingAnomaly(true);
-    // Call Gemini
+    setAnomalyStage(null);
+    setAnomalyOutcome(null);
+    // Usually already in the pool; otherwise the configured provider is asked, which falls back to offline anomalies by itself
     try {
-        const anomaly = await generateAnomaly(stats.level, stats.scrap);
-        setCurrentAnomaly(anomaly);
+        const anomaly = await takeAnomaly(anomalyQueue.current, { level, scrap }, latestSettings.current);
+        if (anomaly) setCurrentAnomaly(anomaly); // Null means the run ended while waiting
     } catch (e) {
         console.error("Failed to generate anomaly", e);
         // Simple fallback handled in service, but just in case:
@@ -65,37 +293,81 @@ const App: React.FC = () => {
     } finally {
         setLoadingAnomaly(false);
     }
-  }, [stats.level, stats.scrap]);
+  }, []);
+
+  const handleTriggerAnomaly = useCallback(() => {
+    openAnomaly(latestStats.current.level, latestStats.current.scrap);
+  }, [openAnomaly]);
+
+  // A core just appeared, start generating its encounter while the player flies to it
+  const handleAnomalySpawned = useCallback(() => {
+    const { level, scrap } = latestStats.current;
+    prefetchAnomaly(anomalyQueue.current, { level, scrap }, latestSettings.current);
+  }, []);
 
   const handleOptionSelect = (index: number) => {
-    if (!currentAnomaly) return;
+    if (!currentAnomaly || anomalyOutcome) return;
     
-    const choice = currentAnomaly.options[index];
+    const choice = getAnomalyStage(currentAnomaly, anomalyStage).options[index];
+    const outcome = rollOutcome(choice, Math.random());
+    anomalyLog.current.push(`${currentAnomaly.title}: ${choice.text}`);
+    if (recording.current && world.current) {
+      recordCommand(recording.current, { tick: world.current.clock.tick, type: 'ANOMALY', choice: `${currentAnomaly.title}: ${choice.text}` });
+    }
     
-    // Apply effects to React State (Visuals)
+    // Apply effects to React State (Visuals), GameCanvas syncs them to the world on resume
+    setStats(prev => applyInstantEffects(prev, outcome.effects));
+
+    // Modifiers live on the world clock, which stays paused until the encounter is over
+    const w = world.current;
+    for (const effect of outcome.effects) {
+      const modifier = getEffectModifier(effect);
+      if (!modifier || !w) continue;
+      const seconds = effect.value > 0 ? effect.value : null; // 0 lasts the rest of the run
+      applyTimedEffect(w, modifier, seconds);
+      if (recording.current) recordCommand(recording.current, { tick: w.clock.tick, type: 'EFFECT', effect: modifier, seconds });
+    }
+
+    setAnomalyOutcome(outcome);
+  };
+
+  // Leaves the outcome screen for the next stage, or back to the fight
+  const handleOutcomeContinue = () => {
+    if (!anomalyOutcome) return;
+    setAnomalyOutcome(null);
+    // A wrecked ship doesn't get to press on, the world ends the run once it resumes
+    if (anomalyOutcome.next && stats.health > 0) {
+      setAnomalyStage(anomalyOutcome.next);
+      return;
+    }
+
+    // We need to tell GameCanvas to update the Refs specifically for Health if it changed
+    setAnomalyEffectApplied(currentAnomaly);
+    setGameState(GameState.PLAYING);
+    setCurrentAnomaly(null);
+    setAnomalyStage(null);
+  };
+
+  const handlePurchaseUpgrade = (id: UpgradeId) => {
     setStats(prev => {
-        let newHealth = prev.health;
-        let newScrap = prev.scrap;
-        
-        if (choice.effect === 'HEAL') newHealth = Math.min(prev.maxHealth, prev.health + choice.value);
-        if (choice.effect === 'DAMAGE') newHealth = Math.max(0, prev.health - choice.value);
-        if (choice.effect === 'SCRAP') newScrap = prev.scrap + choice.value;
-        // 'WEAPON' upgrades would ideally change weapon type, simplified here to just nothing for now or scrap
-        
+        const cost = getUpgradeCost(id, prev.upgrades[id]);
+        if (cost === null || prev.scrap < cost) return prev;
+
+        const upgrades = { ...prev.upgrades, [id]: prev.upgrades[id] + 1 };
+        // Hull plating raises the cap and fills the new space
+        const maxHealth = getShipModifiers(upgrades).maxHealth;
         return {
             ...prev,
-            health: newHealth,
-            scrap: newScrap
+            scrap: prev.scrap - cost,
+            upgrades,
+            maxHealth,
+            health: prev.health + (maxHealth - prev.maxHealth)
         };
     });
-    
-    // We need to tell GameCanvas to update the Refs specifically for Health if it changed
-    setAnomalyEffectApplied(currentAnomaly);
+  };
 
-    // Short delay to read outcome? Or just resume.
-    // For better UX, maybe show the outcome text for 2s, but for speed -> Resume
+  const handleLeaveShop = () => {
     setGameState(GameState.PLAYING);
-    setCurrentAnomaly(null);
   };
 
   return (
@@ -105,16 +377,55 @@ const App: React.FC = () => {
         setStats={setStats} 
         setGameState={setGameState}
         triggerAnomaly={handleTriggerAnomaly}
+        prefetchAnomaly={handleAnomalySpawned}
+        announce={announce}
         anomalyApplied={anomalyEffectApplied}
+        runId={runId}
+        mode={mode}
+        endRun={endRun}
+        world={world}
+        recording={recording}
+        replayPlayer={replayPlayer}
+        onReplayFrame={syncReplayView}
+        settings={settings}
+        onTogglePause={togglePause}
       />
       <UIOverlay 
         gameState={gameState} 
         stats={stats} 
         anomaly={currentAnomaly}
+        anomalyStage={anomalyStage}
+        anomalyOutcome={anomalyOutcome}
+        announcement={announcement}
         onStart={startGame}
+        savedRun={savedRun}
+        onContinue={continueGame}
         onRestart={restartGame}
         onOptionSelect={handleOptionSelect}
+        onOutcomeContinue={handleOutcomeContinue}
         loadingAnomaly={loadingAnomaly}
+        onPurchaseUpgrade={handlePurchaseUpgrade}
+        onLeaveShop={handleLeaveShop}
+        settings={settings}
+        onSettingsChange={handleSettingsChange}
+        controller={controller}
+        onPause={pauseGame}
+        onResume={resumeGame}
+        onQuit={quitToMenu}
+        records={records}
+        lastRun={lastRun}
+        previousBest={previousBest}
+        canEnterInitials={!!lastRun && !scoreSaved && isHighScore(records, lastRun.score)}
+        onSubmitInitials={handleSubmitInitials}
+        onInteract={unlockAudio}
+        replay={lastReplay}
+        onWatchReplay={() => lastReplay && watchReplay(lastReplay)}
+        onExportReplay={handleExportReplay}
+        onImportReplay={handleImportReplay}
+        replayPlayer={replayPlayer.current}
+        replayView={replayView}
+        onReplayControl={handleReplayControl}
+        onExitReplay={exitReplay}
       />
     </div>
   );
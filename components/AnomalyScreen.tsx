@@ -0,0 +1,113 @@
+import React from 'react';
+import { ArrowRight, Loader2, ShieldAlert } from 'lucide-react';
+import { AnomalyEffect, AnomalyEffectType, AnomalyEvent, AnomalyOutcome } from '../types';
+import { describeEffect, getAnomalyStage } from '../game/anomalies';
+import { MODIFIERS } from '../game/effects';
+
+const EFFECT_STYLES: Record<AnomalyEffectType, string> = {
+  HEAL: 'text-green-300 border-green-500/50 bg-green-500/10',
+  DAMAGE: 'text-red-300 border-red-500/50 bg-red-500/10',
+  SCRAP: 'text-yellow-300 border-yellow-500/50 bg-yellow-500/10',
+  WEAPON: 'text-cyan-300 border-cyan-500/50 bg-cyan-500/10',
+  SHIELD: 'text-sky-300 border-sky-400/50 bg-sky-400/10',
+  SLOW_MO: 'text-purple-300 border-purple-400/50 bg-purple-400/10',
+  MODIFIER: 'text-amber-300 border-amber-500/50 bg-amber-500/10',
+  NOTHING: 'text-gray-400 border-slate-600 bg-slate-800'
+};
+
+// Debuffs read as bad news, like damage
+const effectStyle = (effect: AnomalyEffect) =>
+  effect.modifier && MODIFIERS[effect.modifier]?.kind === 'DEBUFF' ? EFFECT_STYLES.DAMAGE : EFFECT_STYLES[effect.effect];
+
+const EffectChips: React.FC<{ effects: AnomalyEffect[] }> = ({ effects }) => (
+  <span className="flex flex-wrap gap-1">
+    {effects.length === 0 ? (
+      <span className={`px-1.5 py-0.5 rounded border text-[10px] font-mono ${EFFECT_STYLES.NOTHING}`}>NOTHING</span>
+    ) : effects.map((effect, i) => (
+      <span key={i} className={`px-1.5 py-0.5 rounded border text-[10px] font-mono ${effectStyle(effect)}`}>
+        {describeEffect(effect)}
+      </span>
+    ))}
+  </span>
+);
+
+interface AnomalyScreenProps {
+  anomaly: AnomalyEvent | null;
+  stageId: string | null; // Null for the opening stage
+  outcome: AnomalyOutcome | null; // Set while the result of the last choice is shown
+  loading: boolean;
+  onOptionSelect: (index: number) => void;
+  onContinue: () => void;
+}
+
+export const AnomalyScreen: React.FC<AnomalyScreenProps> = ({ anomaly, stageId, outcome, loading, onOptionSelect, onContinue }) => {
+  const stage = anomaly && getAnomalyStage(anomaly, stageId);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 z-40 backdrop-blur-md p-4">
+      <div className="bg-slate-900 border border-purple-500/50 rounded-lg max-w-2xl w-full p-8 shadow-[0_0_50px_rgba(168,85,247,0.2)] relative overflow-hidden">
+
+        {/* Background grid effect */}
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,#4f4f4f2e_1px,transparent_1px),linear-gradient(to_bottom,#4f4f4f2e_1px,transparent_1px)] bg-[size:14px_24px] [mask-image:radial-gradient(ellipse_60%_50%_at_50%_0%,#000_70%,transparent_100%)] pointer-events-none"></div>
+
+        {loading ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Loader2 size={48} className="text-purple-400 animate-spin mb-4" />
+            <p className="text-purple-300 font-mono animate-pulse">Loading...</p>
+          </div>
+        ) : anomaly && stage ? (
+          <div className="relative z-10">
+            <div className="flex items-center gap-3 mb-4">
+              <ShieldAlert className="text-purple-400" size={24} />
+              <h2 className="text-3xl font-display text-purple-100">{anomaly.title}</h2>
+            </div>
+
+            <div className="bg-black/40 p-4 rounded border-l-4 border-purple-500 mb-8">
+              <p className="text-lg text-gray-300 leading-relaxed font-light">
+                {outcome ? outcome.description || 'The anomaly goes quiet.' : stage.description}
+              </p>
+              {outcome && (
+                <div className="mt-4">
+                  <EffectChips effects={outcome.effects} />
+                </div>
+              )}
+            </div>
+
+            {outcome ? (
+              <button
+                onClick={onContinue}
+                className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white font-bold rounded-lg transition-colors flex items-center justify-center gap-2 pointer-events-auto"
+              >
+                {outcome.next ? 'PRESS ON' : 'CONTINUE'} <ArrowRight size={18} />
+              </button>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {stage.options.map((option, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => onOptionSelect(idx)}
+                    className="group relative p-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 hover:border-purple-400 rounded-lg text-left transition-all overflow-hidden pointer-events-auto"
+                  >
+                     <div className="absolute inset-0 w-1 bg-purple-500 transition-all group-hover:w-full opacity-10"></div>
+                     <h3 className="font-bold text-purple-200 mb-2 relative z-10">{option.text}</h3>
+                     <ul className="space-y-1 relative z-10">
+                       {option.outcomes.map((possible, i) => (
+                         <li key={i} className="flex items-center gap-2">
+                           {option.outcomes.length > 1 && (
+                             <span className="w-9 shrink-0 text-xs font-mono text-gray-500">{Math.round(possible.chance * 100)}%</span>
+                           )}
+                           <EffectChips effects={possible.effects} />
+                           {possible.next && <ArrowRight size={12} className="text-purple-400 shrink-0" />}
+                         </li>
+                       ))}
+                     </ul>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
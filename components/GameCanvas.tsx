@@ -1,69 +1,114 @@
 import React, { useRef, useEffect } from 'react';
-import { GameState, Entity, EntityType, Vector2, PlayerStats, AnomalyEvent } from '../types';
-import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS, PLAYER_SPEED, ENEMY_SPEED, BULLET_SPEED, FRICTION } from '../constants';
-import { playPlayerShootSound, playEnemyShootSound, playExplosionSound, playCollectSound, playHealthSound, playDamageSound, playAnomalySound } from '../services/audioService';
+import { Pause, Wind } from 'lucide-react';
+import { GameState, Entity, EntityType, Vector2, PlayerStats, AnomalyEvent, WeaponType, GameMode, RunSummary, Settings } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS } from '../constants';
+import { getPan, playSound } from '../services/audioService';
+import { setMusicIntensity } from '../services/musicService';
+import { PAD_BUTTONS, PadButton, PadState, readGamepad, vibrateGamepad } from '../services/gamepadService';
+import { ActionState, MOUSE_BUTTONS, readActions } from '../services/inputService';
+import { BUTTON_SIZE, KNOB_RADIUS, STICK_RADIUS, getControlPosition, getStickSplit, isTouchScreen, readStick, vibrateDevice } from '../services/touchService';
+import { drawProjectile, getWeaponStats } from '../game/weapons';
+import { getShipModifiers } from '../game/upgrades';
+import { assistAim } from '../game/aim';
+import { createInitialStats } from '../game/playerStats';
+import { drawEnemy } from '../game/enemies';
+import { BOSSES, drawBoss, getBossStatus } from '../game/bosses';
+import { getInterpolationAlpha, interpolatePosition, resetAccumulator } from '../game/clock';
+import { createSeed } from '../game/random';
+import { getTimeLeft } from '../game/modes';
+import { getDashStatus, isDashInvulnerable, isDashing } from '../game/dash';
+import { PlayerInput, World, WorldEvent, applyShipState, createWorld, describeDamage, stepWorld, summarizeRun } from '../game/world';
+import { MODIFIERS, getEffectTimeLeft, getModifierStatus, isEffectActive } from '../game/effects';
+import { Replay, ReplayFrame, ReplayPlayer, advanceReplay, createRecording, quantizeInput, recordCommand, recordInput } from '../game/replay';
 
 interface GameCanvasProps {
   gameState: GameState;
   setStats: React.Dispatch<React.SetStateAction<PlayerStats>>;
   setGameState: (state: GameState) => void;
   triggerAnomaly: () => void;
+  prefetchAnomaly: () => void; // An anomaly core appeared, its encounter can be generated ahead of time
+  announce: (title: string, subtitle?: string) => void;
   anomalyApplied: AnomalyEvent | null; // Prop to signal an effect needs to be applied
+  runId: number; // Changes whenever a new run starts
+  mode: GameMode;
+  endRun: (summary: RunSummary) => void;
+  world: React.RefObject<World | null>; // Owned by App so runs can be saved and restored
+  recording: React.RefObject<Replay | null>; // Input and UI changes of the live run
+  replayPlayer: React.RefObject<ReplayPlayer | null>; // Drives the world while watching a replay
+  onReplayFrame: (player: ReplayPlayer) => void;
+  settings: Settings;
+  onTogglePause: () => void;
 }
 
+const MENU_STICK_THRESHOLD = 0.5; // How far the left stick has to be pushed to step through a menu
+
+// Enabled buttons on screen in page order, for getting around the menus with a controller
+const getFocusableButtons = () =>
+  Array.from(document.querySelectorAll<HTMLButtonElement>('button:not([disabled])')).filter(button => button.offsetParent !== null);
+
+const moveFocus = (step: number) => {
+  const buttons = getFocusableButtons();
+  if (buttons.length === 0) return;
+  const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+  const next = current === -1 ? buttons[0] : buttons[(current + step + buttons.length) % buttons.length];
+  for (const button of buttons) button.removeAttribute('data-pad-focus');
+  next.setAttribute('data-pad-focus', ''); // Browsers only draw the focus ring for keyboard focus
+  next.focus();
+};
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({ 
   gameState, 
   setStats, 
   setGameState, 
   triggerAnomaly,
-  anomalyApplied
+  prefetchAnomaly,
+  announce,
+  anomalyApplied,
+  runId,
+  mode,
+  endRun,
+  world,
+  recording,
+  replayPlayer,
+  onReplayFrame,
+  settings,
+  onTogglePause
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
 
-  // Game State in Refs (for performance, avoiding re-renders during loop)
-  const entities = useRef<Entity[]>([]);
-  const player = useRef<Entity | null>(null);
+  // The simulation lives in the engine, the component only feeds it input and draws it
   const keys = useRef<Record<string, boolean>>({});
   const mouse = useRef<Vector2>({ x: 0, y: 0 });
-  const scoreRef = useRef(0);
-  const lastShotTime = useRef(0);
-  const enemySpawnTimer = useRef(0);
-  const healthSpawnTimer = useRef(0);
-  const lastAnomalyScore = useRef(0);
+  const lastHit = useRef('Unknown'); // Cause of death if the next hit is the last
+  const latestSettings = useRef(settings); // The loop only sees props from when it started
+
+  // Controller State
+  const pad = useRef<PadState | null>(null); // Polled every frame
+  const padHeld = useRef<Partial<Record<PadButton, boolean>>>({}); // Last frame's buttons, to catch presses
+  const usingPad = useRef(false); // Aim stays put with a controller, instead of chasing the mouse
+  const actions = useRef<ActionState>(readActions(settings.bindings, {}, null)); // What the player is doing this frame
+  const thrusting = useRef(false); // Any movement input this frame, for the thruster flame
+  const touchDash = useRef(false); // The on-screen dash button is held
+  const dashTrail = useRef<Vector2[]>([]); // Recent positions while dashing, oldest first
+  const fireToggled = useRef(false); // Guns switched on, in toggle fire mode
+  const fireWasHeld = useRef(false); // Last frame's FIRE, to catch presses
   
   // Touch Controls State
-  const touches = useRef<Record<number, { x: number, y: number, type: 'move' | 'aim' }>>({});
+  const touches = useRef<Record<number, { x: number, y: number, anchor: Vector2, type: 'move' | 'aim' }>>({}); // The stick floats to where the thumb landed
   const moveTouchId = useRef<number | null>(null);
   const aimTouchId = useRef<number | null>(null);
   
   // Initialize Game
   const initGame = () => {
-    player.current = {
-      id: 'player',
-      type: EntityType.PLAYER,
-      pos: { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 },
-      vel: { x: 0, y: 0 },
-      radius: 20,
-      color: COLORS.PLAYER,
-      health: 100,
-      maxHealth: 100,
-      rotation: 0
-    };
-    entities.current = [];
-    scoreRef.current = 0;
-    lastAnomalyScore.current = 0;
-    healthSpawnTimer.current = 0;
+    world.current = createWorld({ arena: { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }, seed: createSeed(), mode });
+    recording.current = createRecording(world.current, Date.now());
+    lastHit.current = 'Unknown';
+    fireToggled.current = false;
     
     // Sync initial stats
-    setStats({
-      health: 100,
-      maxHealth: 100,
-      scrap: 0,
-      score: 0,
-      level: 1
-    });
+    setStats(createInitialStats(mode));
   };
 
   // Input handlers
@@ -72,42 +117,54 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const handleKeyUp = (e: KeyboardEvent) => { keys.current[e.code] = false; };
     const handleMouseMove = (e: MouseEvent) => {
       mouse.current = { x: e.clientX, y: e.clientY };
+      usingPad.current = false;
     };
+    // Buttons and inputs (the replay scrubber, initials) need their touches left alone
+    const isControl = (target: EventTarget | null) => !!(target as HTMLElement | null)?.closest?.('button, input');
+
+    // Mouse buttons are bound like keys, as 'MouseLeft' and so on. Clicking a button, or tapping
+    // one on a touch screen, isn't a press of the key.
     const handleMouseDown = (e: MouseEvent) => { 
-        keys.current['MouseLeft'] = true;
-        // Init audio on first interaction if needed
+        if (MOUSE_BUTTONS[e.button] && !isControl(e.target)) keys.current[MOUSE_BUTTONS[e.button]] = true;
     };
-    const handleMouseUp = (e: MouseEvent) => { keys.current['MouseLeft'] = false; };
+    const handleMouseUp = (e: MouseEvent) => {
+        if (MOUSE_BUTTONS[e.button]) keys.current[MOUSE_BUTTONS[e.button]] = false;
+    };
+    // Key-ups are lost while the window is in the background, so don't leave keys held down
+    const handleBlur = () => { keys.current = {}; };
 
     // Touch Handlers
+
     const handleTouchStart = (e: TouchEvent) => {
         // Only prevent default if touching the canvas/gameplay area to allow UI buttons to work
         // But we are listening on the canvas element ideally, but here we are on window for global capture
         // If target is a button, don't prevent default
-        if ((e.target as HTMLElement).tagName === 'BUTTON') return;
+        if (isControl(e.target)) return;
 
         e.preventDefault(); 
+        usingPad.current = false;
         
+        const split = getStickSplit(latestSettings.current.touchLayout, window.innerWidth);
         for (let i = 0; i < e.changedTouches.length; i++) {
             const t = e.changedTouches[i];
             const x = t.clientX;
             const y = t.clientY;
             
-            // Left half of screen = movement
-            if (x < window.innerWidth / 2 && moveTouchId.current === null) {
+            // Move stick's side of the screen = movement
+            if (x < split && moveTouchId.current === null) {
                 moveTouchId.current = t.identifier;
-                touches.current[t.identifier] = { x, y, type: 'move' };
+                touches.current[t.identifier] = { x, y, anchor: { x, y }, type: 'move' };
             } 
-            // Right half = aiming
-            else if (x >= window.innerWidth / 2 && aimTouchId.current === null) {
+            // Aim stick's side = aiming
+            else if (x >= split && aimTouchId.current === null) {
                 aimTouchId.current = t.identifier;
-                touches.current[t.identifier] = { x, y, type: 'aim' };
+                touches.current[t.identifier] = { x, y, anchor: { x, y }, type: 'aim' };
             }
         }
     };
 
     const handleTouchMove = (e: TouchEvent) => {
-        if ((e.target as HTMLElement).tagName === 'BUTTON') return;
+        if (isControl(e.target)) return;
         e.preventDefault();
         for (let i = 0; i < e.changedTouches.length; i++) {
             const t = e.changedTouches[i];
@@ -119,7 +176,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     };
 
     const handleTouchEnd = (e: TouchEvent) => {
-        if ((e.target as HTMLElement).tagName === 'BUTTON') return;
+        if (isControl(e.target)) return;
         e.preventDefault();
         for (let i = 0; i < e.changedTouches.length; i++) {
             const t = e.changedTouches[i];
@@ -135,17 +192,20 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     window.addEventListener('mousemove', handleMouseMove);
     window.addEventListener('mousedown', handleMouseDown);
     window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('blur', handleBlur);
     
     // Attach touch to canvas specifically (or window but filter) - Using window with filter above for now
     // To fix "Reboot" button not working, we must ensure the overlay (z-50) receives events.
     // The overlay is above the canvas.
     // We attached these to `window`. `touchstart` on button propagates to window.
     // We called `preventDefault` which might stop the click.
-    // The check `if (tagName === 'BUTTON')` above fixes this.
+    // The isControl check above fixes this.
     
     window.addEventListener('touchstart', handleTouchStart, { passive: false });
     window.addEventListener('touchmove', handleTouchMove, { passive: false });
     window.addEventListener('touchend', handleTouchEnd, { passive: false });
+    // The browser or OS can take a touch over, e.g. for a system gesture; the stick lets go like on touchend
+    window.addEventListener('touchcancel', handleTouchEnd, { passive: false });
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
@@ -153,16 +213,22 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('blur', handleBlur);
       
       window.removeEventListener('touchstart', handleTouchStart);
       window.removeEventListener('touchmove', handleTouchMove);
       window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('touchcancel', handleTouchEnd);
     };
   }, []);
 
+  useEffect(() => {
+    latestSettings.current = settings;
+  }, [settings]);
+
   // Apply Anomaly Effect (React -> Ref sync)
   useEffect(() => {
-    if (anomalyApplied && player.current) {
+    if (anomalyApplied && world.current) {
       // Effect trigger managed by parent updates to stats, synced via the next useEffect
     }
   }, [anomalyApplied]);
@@ -170,358 +236,242 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   // Sync stats from props to refs when game resumes from anomaly
   useEffect(() => {
     setStats(prev => {
-      if (player.current) {
-        player.current.health = prev.health;
-        player.current.maxHealth = prev.maxHealth;
-        // Scrap and Score are visual mostly in stats, but scoreRef drives difficulty
+      const w = world.current;
+      if (w && gameState !== GameState.REPLAY) {
+        // Scrap and Score are visual mostly in stats, but the world score drives anomaly spawns
+        const ship = { health: prev.health, maxHealth: prev.maxHealth, weapon: prev.weapon, upgrades: prev.upgrades };
+        // Replays need these edits too, they happen between ticks where input can't explain them
+        if (applyShipState(w, ship) && recording.current) {
+          recordCommand(recording.current, { tick: w.clock.tick, type: 'SHIP', ship });
+        }
       }
       return prev;
     });
   }, [gameState]);
 
 
-  // Main Game Loop
-  const update = (deltaTime: number) => {
-    if (gameState !== GameState.PLAYING) return;
-    
+  // The simulation only runs while playing (and not on a phone held upright)
+  const isSimulationRunning = () => {
+    if (gameState !== GameState.PLAYING || !world.current) return false;
+
     // Pause if on Mobile and Portrait
     const isMobile = window.innerWidth < 1024 || 'ontouchstart' in window || navigator.maxTouchPoints > 0;
     const isPortrait = window.innerHeight > window.innerWidth;
-    if (isMobile && isPortrait) return;
-
-    if (!player.current) return;
-
-    const p = player.current;
+    return !(isMobile && isPortrait);
+  };
 
-    // --- Player Movement ---
-    const acc = { x: 0, y: 0 };
-    
-    // Keyboard Input
-    if (keys.current['KeyW']) acc.y -= 1;
-    if (keys.current['KeyS']) acc.y += 1;
-    if (keys.current['KeyA']) acc.x -= 1;
-    if (keys.current['KeyD']) acc.x += 1;
+  // Turns the raw keyboard, mouse, touch and controller state into engine input for this frame
+  const readInput = (w: World): PlayerInput => {
+    const p = w.player;
+    const move = { x: 0, y: 0 };
+    const held = actions.current;
+    const { controlScheme, fireMode, aimAssist, touchLayout } = latestSettings.current;
+    const stickRadius = STICK_RADIUS * touchLayout.size;
+    let turn = 0;
+
+    // Bound Keys
+    if (controlScheme === 'TANK') {
+        // Left and right turn the ship, up and down drive it along its heading
+        turn = Number(held.MOVE_RIGHT) - Number(held.MOVE_LEFT);
+        const drive = Number(held.MOVE_UP) - Number(held.MOVE_DOWN);
+        move.x = Math.cos(p.rotation) * drive;
+        move.y = Math.sin(p.rotation) * drive;
+    } else {
+        if (held.MOVE_UP) move.y -= 1;
+        if (held.MOVE_DOWN) move.y += 1;
+        if (held.MOVE_LEFT) move.x -= 1;
+        if (held.MOVE_RIGHT) move.x += 1;
+    }
 
-    // Touch Input (Virtual Joystick - Left)
+    // Touch Input (Move Stick), pushing further flies faster
     if (moveTouchId.current !== null && touches.current[moveTouchId.current]) {
         const t = touches.current[moveTouchId.current];
-        // Fixed position for joystick center (Bottom Left Corner)
-        const joystickCenterX = 120; 
-        const joystickCenterY = window.innerHeight - 120;
-        
-        const dx = t.x - joystickCenterX;
-        const dy = t.y - joystickCenterY;
-        
-        // Normalize
-        const len = Math.sqrt(dx*dx + dy*dy);
-        if (len > 10) { // Deadzone
-            acc.x = dx / len;
-            acc.y = dy / len;
+        const stick = readStick(t.anchor, t, stickRadius);
+        if (stick.x !== 0 || stick.y !== 0) {
+            move.x = stick.x;
+            move.y = stick.y;
         }
     }
 
-    // Normalize acceleration
-    const len = Math.sqrt(acc.x * acc.x + acc.y * acc.y);
-    if (len > 0) {
-      acc.x /= len;
-      acc.y /= len;
+    // Controller (Left Stick)
+    const padState = pad.current;
+    if (padState) {
+        move.x += padState.move.x;
+        move.y += padState.move.y;
     }
 
-    p.vel.x += acc.x * 0.5; // Acceleration factor
-    p.vel.y += acc.y * 0.5;
-
-    // Friction
-    p.vel.x *= FRICTION;
-    p.vel.y *= FRICTION;
-
-    p.pos.x += p.vel.x;
-    p.pos.y += p.vel.y;
-
-    // Boundaries
-    p.pos.x = Math.max(p.radius, Math.min(CANVAS_WIDTH - p.radius, p.pos.x));
-    p.pos.y = Math.max(p.radius, Math.min(CANVAS_HEIGHT - p.radius, p.pos.y));
-
     // Rotation logic
-    // Mouse
-    if (aimTouchId.current === null) {
-        const dx = mouse.current.x - p.pos.x;
-        const dy = mouse.current.y - p.pos.y;
-        p.rotation = Math.atan2(dy, dx);
-    } else {
-        // Touch Aim (Right Joystick)
+    let aim: number | undefined;
+    let assisted = false; // Sticks and touch get aim assist, the mouse and keys don't
+    const keyAim = { x: Number(held.AIM_RIGHT) - Number(held.AIM_LEFT), y: Number(held.AIM_DOWN) - Number(held.AIM_UP) };
+    if (padState && (padState.aim.x !== 0 || padState.aim.y !== 0)) {
+        // Controller (Right Stick)
+        aim = Math.atan2(padState.aim.y, padState.aim.x);
+        assisted = true;
+    } else if (usingPad.current) {
+        // Stick let go, keep the current heading
+        aim = undefined;
+    } else if (aimTouchId.current !== null) {
+        // Touch Aim (Aim Stick), the heading stays put until the thumb moves off the anchor
         const t = touches.current[aimTouchId.current];
-        // Fixed position for joystick center (Bottom Right Corner)
-        const joystickCenterX = window.innerWidth - 120;
-        const joystickCenterY = window.innerHeight - 120;
-        
-        const dx = t.x - joystickCenterX;
-        const dy = t.y - joystickCenterY;
-        p.rotation = Math.atan2(dy, dx);
-    }
-
-    // --- Shooting (Automatic) ---
-    const now = Date.now();
-    if (now - lastShotTime.current > 150) { // Fire rate
-      const bx = Math.cos(p.rotation);
-      const by = Math.sin(p.rotation);
-      entities.current.push({
-        id: `bullet-${now}`,
-        type: EntityType.BULLET,
-        pos: { x: p.pos.x + bx * 30, y: p.pos.y + by * 30 },
-        vel: { x: bx * BULLET_SPEED, y: by * BULLET_SPEED },
-        radius: 4,
-        color: COLORS.BULLET,
-        health: 1,
-        maxHealth: 1,
-        rotation: p.rotation,
-        life: 60, // frames
-        owner: 'PLAYER'
-      });
-      playPlayerShootSound(); // Sound
-      lastShotTime.current = now;
+        const stick = readStick(t.anchor, t, stickRadius);
+        aim = stick.x !== 0 || stick.y !== 0 ? Math.atan2(stick.y, stick.x) : undefined;
+        assisted = true;
+    } else if (controlScheme === 'TWIN_STICK') {
+        // Aim keys, the heading stays put when none are held
+        aim = keyAim.x !== 0 || keyAim.y !== 0 ? Math.atan2(keyAim.y, keyAim.x) : undefined;
+    } else if (controlScheme === 'MOUSE') {
+        // Mouse
+        aim = Math.atan2(mouse.current.y - p.pos.y, mouse.current.x - p.pos.x);
     }
+    if (aim !== undefined && assisted && aimAssist) aim = assistAim(w.entities, p.pos, aim);
+
+    // Fire mode. Aiming with the touch stick always fires, there's no spare thumb for a button.
+    if (held.FIRE && !fireWasHeld.current) fireToggled.current = !fireToggled.current;
+    fireWasHeld.current = held.FIRE;
+    const fire = fireMode === 'AUTO' || aimTouchId.current !== null
+        || (fireMode === 'HOLD' ? held.FIRE : fireToggled.current);
+    // Alt fire has its own binding and works in every fire mode
+    const altFire = held.ALT_FIRE;
+
+    thrusting.current = move.x !== 0 || move.y !== 0;
+    return { move, aim, turn, dash: held.DASH, fire, altFire };
+  };
 
-    // --- Enemy Spawning ---
-    enemySpawnTimer.current += 1;
-    if (enemySpawnTimer.current > 60) { // Spawn every ~1 second
-      enemySpawnTimer.current = 0;
-      const edge = Math.floor(Math.random() * 4); // 0: top, 1: right, 2: bottom, 3: left
-      let ex = 0, ey = 0;
-      if (edge === 0) { ex = Math.random() * CANVAS_WIDTH; ey = -30; }
-      else if (edge === 1) { ex = CANVAS_WIDTH + 30; ey = Math.random() * CANVAS_HEIGHT; }
-      else if (edge === 2) { ex = Math.random() * CANVAS_WIDTH; ey = CANVAS_HEIGHT + 30; }
-      else { ex = -30; ey = Math.random() * CANVAS_HEIGHT; }
-
-      entities.current.push({
-        id: `enemy-${Date.now()}-${Math.random()}`,
-        type: EntityType.ENEMY,
-        pos: { x: ex, y: ey },
-        vel: { x: 0, y: 0 },
-        radius: 15,
-        color: COLORS.ENEMY,
-        health: 20,
-        maxHealth: 20,
-        rotation: 0,
-        value: 10,
-        lastShot: Date.now() + Math.random() * 1000 // Stagger initial shots
-      });
+  // Reads the controller for this frame. Sticks feed readInput; buttons pause the run, and
+  // outside of play the d-pad or left stick walks through the on-screen buttons.
+  const pollGamepad = () => {
+    const { stickDeadzone, triggerDeadzone } = latestSettings.current;
+    const state = readGamepad({ stick: stickDeadzone, trigger: triggerDeadzone });
+    const held = padHeld.current;
+    pad.current = state;
+    if (!state) {
+        padHeld.current = {};
+        return;
     }
 
-    // --- Health Pickup Spawning ---
-    healthSpawnTimer.current += 1;
-    if (healthSpawnTimer.current > 900) { // Spawn every ~15 seconds (60fps * 15)
-      healthSpawnTimer.current = 0;
-      if (Math.random() > 0.3) { // 70% chance to spawn when timer hits
-        entities.current.push({
-          id: `health-${Date.now()}`,
-          type: EntityType.HEALTH_PICKUP,
-          pos: { x: Math.random() * (CANVAS_WIDTH - 100) + 50, y: Math.random() * (CANVAS_HEIGHT - 100) + 50 },
-          vel: { x: 0, y: 0 },
-          radius: 15,
-          color: COLORS.HEALTH,
-          health: 1,
-          maxHealth: 1,
-          rotation: 0,
-          value: 20 // Heal amount
-        });
-      }
+    // The left stick counts as a d-pad in menus
+    const buttons = { ...state.buttons };
+    buttons.UP ||= state.move.y < -MENU_STICK_THRESHOLD;
+    buttons.DOWN ||= state.move.y > MENU_STICK_THRESHOLD;
+    buttons.LEFT ||= state.move.x < -MENU_STICK_THRESHOLD;
+    buttons.RIGHT ||= state.move.x > MENU_STICK_THRESHOLD;
+    padHeld.current = buttons;
+
+    const pressed = (button: PadButton) => buttons[button] && !held[button];
+    const sticksMoved = state.move.x !== 0 || state.move.y !== 0 || state.aim.x !== 0 || state.aim.y !== 0;
+    if (sticksMoved || state.fire || state.altFire || PAD_BUTTONS.some(pressed)) usingPad.current = true;
+
+    const inRun = gameState === GameState.PLAYING || gameState === GameState.PAUSED;
+    if (inRun && (pressed('PAUSE') || pressed('MENU'))) onTogglePause();
+    if (gameState === GameState.PLAYING) return;
+
+    if (pressed('UP') || pressed('LEFT')) moveFocus(-1);
+    if (pressed('DOWN') || pressed('RIGHT')) moveFocus(1);
+    if (pressed('CONFIRM')) {
+        if (document.activeElement instanceof HTMLButtonElement) document.activeElement.click();
+        else moveFocus(1);
     }
+    if (pressed('BACK') && gameState === GameState.PAUSED) onTogglePause();
+  };
 
-    // --- Anomalies (Gemini Trigger) ---
-    // Trigger every 500 score
-    if (scoreRef.current - lastAnomalyScore.current >= 500) {
-        lastAnomalyScore.current = scoreRef.current;
-        // Spawn Anomaly Core instead of direct trigger for better gameplay flow
-        entities.current.push({
-            id: `anomaly-${Date.now()}`,
-            type: EntityType.ANOMALY_CORE,
-            pos: { x: Math.random() * (CANVAS_WIDTH - 100) + 50, y: Math.random() * (CANVAS_HEIGHT - 100) + 50 },
-            vel: { x: 0, y: 0 },
-            radius: 25,
-            color: COLORS.ANOMALY,
-            health: 1,
-            maxHealth: 1,
-            rotation: 0
-        });
-    }
-
-    // --- Entity Updates ---
-    for (let i = entities.current.length - 1; i >= 0; i--) {
-      const ent = entities.current[i];
-
-      // Movement
-      ent.pos.x += ent.vel.x;
-      ent.pos.y += ent.vel.y;
-
-      // Logic based on type
-      if (ent.type === EntityType.BULLET) {
-        if (ent.life) ent.life--;
-        if (ent.life !== undefined && ent.life <= 0) {
-          entities.current.splice(i, 1);
-          continue;
-        }
-
-        // Player Bullet vs Enemy Collision handled in Enemy block loop for efficiency? 
-        // Actually current logic handles it in Enemy block.
-        // But we need to handle Enemy Bullet vs Player here or in Player block?
-        // Easier to handle "Bullet hitting Player" here if bullet owner is ENEMY
-        if (ent.owner === 'ENEMY') {
-             const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
-             if (dist < p.radius + ent.radius) {
-                 p.health -= 5; // Enemy bullet damage
-                 playDamageSound(); // Sound
-                 createParticles(ent.pos, 3, COLORS.PLAYER);
-                 entities.current.splice(i, 1);
-                 if (p.health <= 0) {
-                     playExplosionSound(); // Game Over sound
-                     setGameState(GameState.GAME_OVER);
-                 }
-                 continue;
-             }
-        }
-
-      } else if (ent.type === EntityType.ENEMY) {
-        // Chase player
-        const angle = Math.atan2(p.pos.y - ent.pos.y, p.pos.x - ent.pos.x);
-        ent.vel.x = Math.cos(angle) * ENEMY_SPEED;
-        ent.vel.y = Math.sin(angle) * ENEMY_SPEED;
-        ent.rotation = angle;
-
-        // Shooting Logic
-        const now = Date.now();
-        if (ent.lastShot && now - ent.lastShot > 1000) { // Fire every 1 second (Faster!)
-            ent.lastShot = now;
-            const bx = Math.cos(ent.rotation);
-            const by = Math.sin(ent.rotation);
-            entities.current.push({
-                id: `bullet-enemy-${now}-${Math.random()}`,
-                type: EntityType.BULLET,
-                pos: { x: ent.pos.x + bx * 20, y: ent.pos.y + by * 20 },
-                vel: { x: bx * (BULLET_SPEED * 0.8), y: by * (BULLET_SPEED * 0.8) }, // Faster enemy bullets
-                radius: 4,
-                color: '#ef4444', // Red bullets
-                health: 1,
-                maxHealth: 1,
-                rotation: ent.rotation,
-                life: 80,
-                owner: 'ENEMY'
-            });
-            // playEnemyShootSound(); // Optional: might be too noisy if many enemies
-        }
-
-        // Collision with Player
-        const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
-        if (dist < p.radius + ent.radius) {
-          p.health -= 10;
-          playDamageSound(); // Sound
-          createParticles(ent.pos, 5, COLORS.PLAYER);
-          entities.current.splice(i, 1);
-          if (p.health <= 0) {
-              playExplosionSound();
-              setGameState(GameState.GAME_OVER);
-          }
-          continue;
-        }
-      } else if (ent.type === EntityType.SCRAP) {
-          // Magnet effect if close
-          const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
-          if (dist < 150) {
-              ent.pos.x += (p.pos.x - ent.pos.x) * 0.1;
-              ent.pos.y += (p.pos.y - ent.pos.y) * 0.1;
-          }
-          // Collect
-          if (dist < p.radius + ent.radius) {
-              setStats(prev => ({ ...prev, scrap: prev.scrap + (ent.value || 1) }));
-              playCollectSound(); // Sound
-              entities.current.splice(i, 1);
-              continue;
-          }
-      } else if (ent.type === EntityType.ANOMALY_CORE) {
-          // Pulsate
-          ent.radius = 25 + Math.sin(Date.now() * 0.005) * 5;
-          const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
-          if (dist < p.radius + ent.radius) {
-              playAnomalySound(); // Sound
-              triggerAnomaly(); // Pause and call Gemini
-              entities.current.splice(i, 1);
-              continue;
+  // Sounds, banners and React state for what happened in the world this frame
+  // While replaying only the sounds and banners play, the run itself is already over
+  const handleEvents = (w: World, events: WorldEvent[], replaying = false) => {
+    const panAt = (ent: Entity) => getPan(ent.pos.x, w.arena.width);
+    const playerPan = panAt(w.player);
+    for (const event of events) {
+      switch (event.type) {
+        case 'PLAYER_FIRED':
+          playSound('PLAYER_SHOOT', playerPan);
+          break;
+        case 'DASHED':
+          playSound('DASH', playerPan);
+          break;
+        case 'ENEMY_FIRED':
+          playSound('ENEMY_SHOOT', panAt(event.source));
+          break;
+        case 'DAMAGE':
+          if (event.target.type !== EntityType.PLAYER) break;
+          lastHit.current = describeDamage(event);
+          if (!replaying && latestSettings.current.vibration) {
+            // The beam keeps renewing a light rumble for as long as it burns
+            if (event.cause === 'BEAM') vibrateGamepad(0.2, 100);
+            else {
+              vibrateGamepad(0.6, 200);
+              vibrateDevice(60);
+            }
           }
-      } else if (ent.type === EntityType.HEALTH_PICKUP) {
-          // Pulsate
-          ent.radius = 15 + Math.sin(Date.now() * 0.005) * 2;
-          const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
-          if (dist < p.radius + ent.radius) {
-              // Heal Player
-              p.health = Math.min(p.maxHealth, p.health + (ent.value || 20));
-              playHealthSound(); // Sound
-              createParticles(ent.pos, 10, COLORS.HEALTH); // Green particles
-              entities.current.splice(i, 1);
-              continue;
+          // The boss beam ticks every frame, too often for a sound
+          if (event.cause !== 'BEAM') playSound('DAMAGE', playerPan);
+          break;
+        case 'KILL':
+          playSound('EXPLOSION', panAt(event.entity));
+          if (event.entity.type === EntityType.BOSS) announce('BOSS DESTROYED', `${BOSSES[event.entity.bossId!].name} neutralized`);
+          break;
+        case 'PICKUP':
+          if (event.kind === EntityType.SCRAP) {
+            playSound('COLLECT', playerPan);
+            if (!replaying) setStats(prev => ({ ...prev, scrap: prev.scrap + event.value }));
+          } else {
+            playSound('HEALTH', playerPan);
           }
-      }
-
-      // Collision: Bullet vs Enemy (Only Player Bullets)
-      if (ent.type === EntityType.ENEMY) {
-        for (let j = entities.current.length - 1; j >= 0; j--) {
-          const bullet = entities.current[j];
-          if (bullet.type === EntityType.BULLET && bullet.owner === 'PLAYER') {
-            const dist = Math.hypot(ent.pos.x - bullet.pos.x, ent.pos.y - bullet.pos.y);
-            if (dist < ent.radius + bullet.radius) {
-              ent.health -= 10;
-              entities.current.splice(j, 1); // Remove bullet
-              if (ent.health <= 0) {
-                createParticles(ent.pos, 8, COLORS.ENEMY);
-                playExplosionSound(); // Sound
-                // Drop Scrap
-                entities.current.push({
-                    id: `scrap-${Date.now()}`,
-                    type: EntityType.SCRAP,
-                    pos: { ...ent.pos },
-                    vel: { x: (Math.random() - 0.5), y: (Math.random() - 0.5) },
-                    radius: 8,
-                    color: COLORS.SCRAP,
-                    health: 1,
-                    maxHealth: 1,
-                    rotation: 0,
-                    value: 5
-                });
-                
-                scoreRef.current += ent.value || 10;
-                entities.current.splice(i, 1); // Remove enemy
-              }
-              break;
-            }
+          break;
+        case 'EFFECT_ENDED':
+          announce(`${MODIFIERS[event.effect].name.toUpperCase()} EXPIRED`);
+          break;
+        case 'ANOMALY_SPAWNED':
+          if (!replaying) prefetchAnomaly();
+          break;
+        case 'ANOMALY_TRIGGERED':
+          playSound('ANOMALY', playerPan);
+          if (!replaying) triggerAnomaly(); // Pause and generate the encounter
+          break;
+        case 'DOCKED':
+          playSound('COLLECT', playerPan);
+          if (!replaying) setGameState(GameState.SHOP); // Dock and open the shop
+          break;
+        case 'BOSS_SPAWNED':
+          announce('WARNING', `${BOSSES[event.bossId].name} approaching`);
+          break;
+        case 'BOSS_PHASE':
+          announce(`PHASE ${event.phase}`, BOSSES[event.bossId].name);
+          playSound('EXPLOSION');
+          break;
+        case 'WAVE_STARTED':
+          announce(`WAVE ${event.wave}`, `Sector threat level ${w.waves.level}`);
+          if (!replaying) setStats(prev => ({ ...prev, wave: event.wave }));
+          break;
+        case 'WAVE_CLEARED':
+          announce('WAVE CLEARED', `+${event.bonus} bonus`);
+          break;
+        case 'LEVEL_UP':
+          announce(`LEVEL ${event.level}`, 'Docking beacon deployed');
+          if (!replaying) setStats(prev => ({ ...prev, level: event.level }));
+          break;
+        case 'PLAYER_DIED':
+          playSound('EXPLOSION', playerPan); // Game Over sound
+          if (!replaying && latestSettings.current.vibration) {
+            vibrateGamepad(1, 500);
+            vibrateDevice([100, 50, 200]);
           }
-        }
+          if (!replaying) endRun(summarizeRun(w, 'DESTROYED', lastHit.current));
+          break;
+        case 'RUN_ENDED':
+          playSound('COLLECT');
+          if (!replaying) endRun(summarizeRun(w, event.reason, event.reason === 'SURVIVED' ? `Cleared wave ${w.waves.wave}` : 'Out of time'));
+          break;
       }
     }
-    
-    // Sync UI periodically
-    setStats(prev => ({
-        ...prev,
-        health: p.health,
-        score: scoreRef.current
-    }));
   };
 
-  const createParticles = (pos: Vector2, count: number, color: string) => {
-    for (let i = 0; i < count; i++) {
-      entities.current.push({
-        id: `part-${Date.now()}-${i}`,
-        type: EntityType.PARTICLE,
-        pos: { ...pos },
-        vel: { x: (Math.random() - 0.5) * 10, y: (Math.random() - 0.5) * 10 },
-        radius: Math.random() * 3 + 1,
-        color: color,
-        health: 1,
-        maxHealth: 1,
-        rotation: 0,
-        life: 30 + Math.random() * 20
-      });
-    }
+  const handleReplayFrame = (w: World, frame: ReplayFrame) => {
+    handleEvents(w, frame.events, true);
+    for (const choice of frame.choices) announce('ANOMALY', choice);
   };
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
+  // `alpha` is how far the frame sits between the last two ticks
+  const draw = (ctx: CanvasRenderingContext2D, alpha: number) => {
     // Clear
     ctx.fillStyle = COLORS.BG;
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
@@ -538,15 +488,43 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     }
 
     if (gameState === GameState.MENU) return;
-    if (!player.current) return;
+    const w = gameState === GameState.REPLAY ? replayPlayer.current?.world : world.current;
+    if (!w) return;
 
-    const p = player.current;
+    const p = w.player;
+    const playerPos = interpolatePosition(p, alpha);
+
+    // Dash afterimages, which shrink away once the dash is over
+    const trail = dashTrail.current;
+    if (isDashing(w.dash, w.clock.time)) {
+        trail.push({ ...playerPos });
+        if (trail.length > 8) trail.shift();
+    } else {
+        trail.shift();
+    }
+    trail.forEach((pos, i) => {
+        ctx.save();
+        ctx.globalAlpha = ((i + 1) / trail.length) * 0.35;
+        ctx.translate(pos.x, pos.y);
+        ctx.rotate(p.rotation);
+        ctx.fillStyle = '#38bdf8';
+        ctx.beginPath();
+        ctx.moveTo(20, 0);
+        ctx.lineTo(-15, 15);
+        ctx.lineTo(-10, 0);
+        ctx.lineTo(-15, -15);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+    });
 
     // Draw Player
     ctx.save();
-    ctx.translate(p.pos.x, p.pos.y);
+    ctx.translate(playerPos.x, playerPos.y);
     ctx.rotate(p.rotation);
     ctx.fillStyle = p.color;
+    // Flickers while dash i-frames last
+    if (isDashInvulnerable(w.dash, w.clock.time) && Math.floor(w.clock.time / 50) % 2 === 0) ctx.globalAlpha = 0.4;
     // Ship shape
     ctx.beginPath();
     ctx.moveTo(20, 0);
@@ -557,7 +535,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     ctx.fill();
     
     // Thruster flame
-    if (keys.current['KeyW'] || (moveTouchId.current !== null && touches.current[moveTouchId.current])) {
+    if (thrusting.current) {
         ctx.fillStyle = '#f97316';
         ctx.beginPath();
         ctx.moveTo(-12, 5);
@@ -565,43 +543,57 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.lineTo(-12, -5);
         ctx.fill();
     }
+
+    // Charge cannon build-up glow at the nose
+    if (w.weapon.type === WeaponType.CHARGE) {
+        const stats = getWeaponStats(w.weapon);
+        const fireRate = stats.fireRate * getShipModifiers(w.upgrades).fireRateMultiplier;
+        const charge = Math.min(1, (w.clock.time - w.lastShotTime) / fireRate);
+        ctx.fillStyle = stats.color;
+        ctx.globalAlpha = 0.3 + charge * 0.7;
+        ctx.shadowBlur = 20 * charge;
+        ctx.shadowColor = stats.color;
+        ctx.beginPath();
+        ctx.arc(24, 0, 2 + charge * 6, 0, Math.PI * 2);
+        ctx.fill();
+    }
     ctx.restore();
 
+    // Anomaly shield bubble, flickering in its last second
+    const shieldLeft = getEffectTimeLeft(w.effects, 'SHIELD', w.clock.time);
+    if (shieldLeft > 0 && (shieldLeft > 1000 || Math.floor(shieldLeft / 100) % 2 === 0)) {
+        ctx.save();
+        ctx.strokeStyle = MODIFIERS.SHIELD.color;
+        ctx.fillStyle = 'rgba(56, 189, 248, 0.12)';
+        ctx.lineWidth = 2;
+        ctx.shadowBlur = 15;
+        ctx.shadowColor = MODIFIERS.SHIELD.color;
+        ctx.beginPath();
+        ctx.arc(playerPos.x, playerPos.y, p.radius + 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.restore();
+    }
+
     // Draw Entities
-    entities.current.forEach(ent => {
+    w.entities.forEach(ent => {
       ctx.save();
-      ctx.translate(ent.pos.x, ent.pos.y);
+      const pos = interpolatePosition(ent, alpha);
+      ctx.translate(pos.x, pos.y);
       
       if (ent.type === EntityType.ENEMY) {
-          ctx.rotate(ent.rotation);
-          ctx.fillStyle = ent.color;
-          ctx.beginPath();
-          ctx.moveTo(15, 0);
-          ctx.lineTo(-10, 10);
-          ctx.lineTo(-10, -10);
-          ctx.fill();
-          // Health bar above enemy
-          ctx.fillStyle = 'red';
-          ctx.fillRect(-15, -20, 30, 4);
-          ctx.fillStyle = '#22c55e';
-          ctx.fillRect(-15, -20, 30 * (ent.health / ent.maxHealth), 4);
-
+          drawEnemy(ctx, ent);
+      } else if (ent.type === EntityType.BOSS) {
+          drawBoss(ctx, ent);
       } else if (ent.type === EntityType.BULLET) {
-          ctx.fillStyle = ent.color;
-          ctx.beginPath();
-          ctx.arc(0, 0, ent.radius, 0, Math.PI * 2);
-          ctx.fill();
-          // Glow
-          ctx.shadowBlur = 10;
-          ctx.shadowColor = ent.color;
-          ctx.stroke();
+          drawProjectile(ctx, ent);
       } else if (ent.type === EntityType.PARTICLE) {
           ctx.globalAlpha = (ent.life || 1) / 30;
           ctx.fillStyle = ent.color;
           ctx.fillRect(-ent.radius, -ent.radius, ent.radius*2, ent.radius*2);
       } else if (ent.type === EntityType.SCRAP) {
           ctx.fillStyle = ent.color;
-          ctx.rotate(Date.now() * 0.01);
+          ctx.rotate(w.clock.time * 0.01);
           ctx.fillRect(-5, -5, 10, 10);
       } else if (ent.type === EntityType.ANOMALY_CORE) {
           ctx.fillStyle = 'rgba(168, 85, 247, 0.5)'; // Purple transparent
@@ -614,6 +606,20 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
           ctx.fill();
           ctx.shadowBlur = 20;
           ctx.shadowColor = '#a855f7';
+      } else if (ent.type === EntityType.DOCKING_BEACON) {
+          // Rotating docking ring
+          ctx.rotate(ent.rotation);
+          ctx.shadowBlur = 15;
+          ctx.shadowColor = ent.color;
+          ctx.strokeStyle = ent.color;
+          ctx.lineWidth = 3;
+          ctx.setLineDash([12, 8]);
+          ctx.beginPath();
+          ctx.arc(0, 0, ent.radius, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.fillStyle = ent.color;
+          ctx.fillRect(-6, -6, 12, 12);
       } else if (ent.type === EntityType.HEALTH_PICKUP) {
           // Green cross icon
           ctx.fillStyle = ent.color;
@@ -636,118 +642,159 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.restore();
     });
 
-    // Draw Mobile Controls (Virtual Joysticks) - Only on touch devices (or small screens)
-    // Simple heuristic: if we have active touch points, or window width is small
-    const isMobile = window.innerWidth < 1024 || 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+    // Slow-mo washes the arena in purple
+    if (isEffectActive(w.effects, 'SLOW_MO', w.clock.time)) {
+        ctx.fillStyle = 'rgba(168, 85, 247, 0.08)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    }
 
-    if (isMobile) {
-        // Always draw circles to indicate where controls are
-        const joystickRadius = 50;
-        const joystickKnobRadius = 20;
-        
-        // Left Joystick (Movement) - Bottom Left
-        const leftCenterX = 120;
-        const leftCenterY = window.innerHeight - 120;
-        
-        ctx.save();
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.arc(leftCenterX, leftCenterY, joystickRadius, 0, Math.PI * 2);
-        ctx.stroke();
-        
-        // Draw active knob for left joystick
-        if (moveTouchId.current !== null && touches.current[moveTouchId.current]) {
-            const t = touches.current[moveTouchId.current];
-            let dx = t.x - leftCenterX;
-            let dy = t.y - leftCenterY;
-            const dist = Math.sqrt(dx*dx + dy*dy);
-            if (dist > joystickRadius) {
-                dx = (dx / dist) * joystickRadius;
-                dy = (dy / dist) * joystickRadius;
-            }
-            
-            ctx.fillStyle = 'rgba(6, 182, 212, 0.5)'; // Cyan
-            ctx.beginPath();
-            ctx.arc(leftCenterX + dx, leftCenterY + dy, joystickKnobRadius, 0, Math.PI * 2);
-            ctx.fill();
-        } else {
-            // Center knob inactive
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+    // Touch joysticks, resting where the layout puts them until a thumb lands on their side
+    if (isTouchScreen()) {
+        const layout = latestSettings.current.touchLayout;
+        const radius = STICK_RADIUS * layout.size;
+        const drawStick = (touchId: number | null, rest: Vector2, color: string) => {
+            const t = touchId !== null ? touches.current[touchId] : undefined;
+            const center = t ? t.anchor : rest;
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+            ctx.lineWidth = 2;
             ctx.beginPath();
-            ctx.arc(leftCenterX, leftCenterY, joystickKnobRadius, 0, Math.PI * 2);
-            ctx.fill();
-        }
+            ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+            ctx.stroke();
 
-        // Right Joystick (Aiming) - Bottom Right
-        const rightCenterX = window.innerWidth - 120;
-        const rightCenterY = window.innerHeight - 120;
-        
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-        ctx.beginPath();
-        ctx.arc(rightCenterX, rightCenterY, joystickRadius, 0, Math.PI * 2);
-        ctx.stroke();
-
-        // Draw active knob for right joystick
-        if (aimTouchId.current !== null && touches.current[aimTouchId.current]) {
-            const t = touches.current[aimTouchId.current];
-            let dx = t.x - rightCenterX;
-            let dy = t.y - rightCenterY;
+            // The knob follows the thumb but stays inside the ring
+            let dx = t ? t.x - center.x : 0;
+            let dy = t ? t.y - center.y : 0;
             const dist = Math.sqrt(dx*dx + dy*dy);
-            if (dist > joystickRadius) {
-                dx = (dx / dist) * joystickRadius;
-                dy = (dy / dist) * joystickRadius;
+            if (dist > radius) {
+                dx = (dx / dist) * radius;
+                dy = (dy / dist) * radius;
             }
-            
-            ctx.fillStyle = 'rgba(249, 115, 22, 0.5)'; // Orange
-            ctx.beginPath();
-            ctx.arc(rightCenterX + dx, rightCenterY + dy, joystickKnobRadius, 0, Math.PI * 2);
-            ctx.fill();
-        } else {
-            // Center knob inactive
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+            ctx.fillStyle = t ? color : 'rgba(255, 255, 255, 0.15)';
             ctx.beginPath();
-            ctx.arc(rightCenterX, rightCenterY, joystickKnobRadius, 0, Math.PI * 2);
+            ctx.arc(center.x + dx, center.y + dy, KNOB_RADIUS * layout.size, 0, Math.PI * 2);
             ctx.fill();
-        }
+        };
+
+        ctx.save();
+        ctx.globalAlpha = layout.opacity;
+        drawStick(moveTouchId.current, getControlPosition(layout, 'moveStick', window.innerWidth, window.innerHeight), 'rgba(6, 182, 212, 0.7)'); // Cyan
+        drawStick(aimTouchId.current, getControlPosition(layout, 'aimStick', window.innerWidth, window.innerHeight), 'rgba(249, 115, 22, 0.7)'); // Orange
         ctx.restore();
     }
   };
 
   const loop = (time: number) => {
-    const deltaTime = time - lastTimeRef.current;
+    const deltaTime = lastTimeRef.current ? time - lastTimeRef.current : 0;
     lastTimeRef.current = time;
 
-    update(deltaTime);
+    // Fixed timestep: run as many ticks as the elapsed time covers, whatever the refresh rate
+    let alpha = 1;
+    const w = world.current;
+    const player = replayPlayer.current;
+    pollGamepad();
+    actions.current = readActions(latestSettings.current.bindings, keys.current, pad.current);
+    actions.current.DASH ||= touchDash.current;
+    if (w && isSimulationRunning()) {
+        const input = quantizeInput(readInput(w));
+        const startTick = w.clock.tick;
+        handleEvents(w, stepWorld(w, input, deltaTime));
+        if (recording.current) recordInput(recording.current, input, w.clock.tick - startTick);
+        alpha = getInterpolationAlpha(w.clock);
+
+        // Sync UI periodically
+        const boss = w.entities.find(e => e.type === EntityType.BOSS);
+        setStats(prev => ({
+            ...prev,
+            health: w.player.health,
+            score: w.score,
+            boss: boss ? getBossStatus(boss) : null,
+            timeLeft: getTimeLeft(w.mode, w.clock.time),
+            modifiers: getModifierStatus(w.effects, w.clock.time),
+            dash: getDashStatus(w.dash, w.upgrades)
+        }));
+        setMusicIntensity({
+            enemies: w.entities.filter(e => e.type === EntityType.ENEMY && !e.dead).length,
+            health: w.player.health / w.player.maxHealth,
+            boss: boss !== undefined
+        });
+    } else if (gameState === GameState.REPLAY && player) {
+        handleReplayFrame(player.world, advanceReplay(player, deltaTime));
+        alpha = getInterpolationAlpha(player.world.clock);
+        onReplayFrame(player);
+    } else if (w) {
+        // Game clock is frozen, don't bank real time while it is
+        resetAccumulator(w.clock);
+    }
     
     const canvas = canvasRef.current;
     if (canvas) {
         const ctx = canvas.getContext('2d');
-        if (ctx) draw(ctx);
+        if (ctx) draw(ctx, alpha);
     }
 
     requestRef.current = requestAnimationFrame(loop);
   };
 
+  // Fresh world for every new run (start, restart, or back from the menu)
+  useEffect(() => {
+    if (runId > 0) initGame();
+  }, [runId]);
+
   // Start Loop
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
-        // Initialize if first run OR if player is dead (restart)
-        if (player.current === null || player.current.health <= 0) {
-            initGame();
-        }
-    }
-    
+    lastTimeRef.current = 0;
     requestRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(requestRef.current);
   }, [gameState]);
 
+  const touchScreen = isTouchScreen();
+  const layout = settings.touchLayout;
+  // Touch buttons are centred on their spot in the layout
+  const buttonStyle = (control: 'dashButton' | 'pauseButton', scale: number) => ({
+    left: `${layout[control].x * 100}%`,
+    top: `${layout[control].y * 100}%`,
+    width: BUTTON_SIZE * layout.size * scale,
+    height: BUTTON_SIZE * layout.size * scale,
+    opacity: layout.opacity,
+    transform: 'translate(-50%, -50%)'
+  });
+  const buzz = () => { if (settings.vibration) vibrateDevice(15); };
+  const setTouchDash = (held: boolean) => () => {
+    if (held && !touchDash.current) buzz();
+    touchDash.current = held;
+  };
+
   return (
-    <canvas 
-        ref={canvasRef} 
-        width={CANVAS_WIDTH} 
-        height={CANVAS_HEIGHT} 
-        className="block bg-slate-900 cursor-crosshair touch-none"
-    />
+    <>
+      <canvas 
+          ref={canvasRef} 
+          width={CANVAS_WIDTH} 
+          height={CANVAS_HEIGHT} 
+          className="block bg-slate-900 cursor-crosshair touch-none"
+          onContextMenu={e => e.preventDefault()}
+      />
+      {touchScreen && gameState === GameState.PLAYING && (
+        <>
+          <button
+            onTouchStart={setTouchDash(true)}
+            onTouchEnd={setTouchDash(false)}
+            onTouchCancel={setTouchDash(false)}
+            style={buttonStyle('dashButton', 1)}
+            className="absolute z-40 rounded-full bg-sky-500/20 border-2 border-sky-400/50 text-sky-200 flex items-center justify-center touch-none select-none"
+            aria-label="Dash"
+          >
+            <Wind size={28 * layout.size} />
+          </button>
+          <button
+            onClick={() => { buzz(); onTogglePause(); }}
+            style={buttonStyle('pauseButton', 0.7)}
+            className="absolute z-40 rounded-full bg-black/30 border-2 border-white/30 text-gray-200 flex items-center justify-center touch-none select-none"
+            aria-label="Pause"
+          >
+            <Pause size={20 * layout.size} />
+          </button>
+        </>
+      )}
+    </>
   );
 };
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { RunRecord } from '../types';
+import { Trophy, Film, Download, Upload } from 'lucide-react';
+import { MODES, formatTime } from '../game/modes';
+import { Replay } from '../game/replay';
+
+interface GameOverScreenProps {
+  run: RunRecord;
+  previousBest: number; // Personal best for the mode before this run
+  canEnterInitials: boolean; // Made the high-score table and hasn't been entered yet
+  onSubmitInitials: (initials: string) => void;
+  onRestart: () => void;
+  onQuit: () => void;
+  replay: Replay | null; // Recording of this run, if there is one
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  onImportReplay: (file: File) => Promise<void>; // Rejects with a readable reason
+}
+
+export const GameOverScreen: React.FC<GameOverScreenProps> = ({ run, previousBest, canEnterInitials, onSubmitInitials, onRestart, onQuit, replay, onWatchReplay, onExportReplay, onImportReplay }) => {
+  const [initials, setInitials] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Running out the clock or clearing the last wave is a win, not a wreck
+  const won = run.end === 'SURVIVED' || run.end === 'TIME_UP';
+  const newRecord = run.score > previousBest;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (initials.trim()) onSubmitInitials(initials.trim());
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should still fire
+    if (!file) return;
+    try {
+      setImportError(null);
+      await onImportReplay(file);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Couldn't load that replay");
+    }
+  };
+
+  const replayButtonClass = "flex items-center gap-2 px-4 py-2 bg-black/30 text-white hover:bg-black/50 rounded-full font-bold text-sm transition-colors pointer-events-auto";
+
+  return (
+    <div className={`absolute inset-0 flex flex-col items-center justify-center z-50 text-center p-4 backdrop-blur-sm overflow-y-auto ${won ? 'bg-cyan-900/80' : 'bg-red-900/80'}`}>
+      <h2 className={`text-5xl font-display font-bold mb-4 ${won ? 'text-cyan-300' : 'text-red-500'}`}>
+        {run.end === 'SURVIVED' ? 'SECTOR SURVIVED' : run.end === 'TIME_UP' ? 'TIME UP' : 'CRITICAL FAILURE'}
+      </h2>
+      <p className="text-sm text-gray-300 font-mono uppercase tracking-widest mb-4">{MODES[run.mode].name} • Wave {run.wave}</p>
+      <p className="text-2xl text-white mb-2">Score: {run.score}</p>
+
+      {newRecord ? (
+        <p className="flex items-center gap-2 text-amber-300 font-display font-bold tracking-widest mb-4 animate-pulse">
+          <Trophy size={20} /> NEW RECORD
+        </p>
+      ) : (
+        <p className="text-sm text-gray-300 font-mono mb-4">Personal best: {previousBest}</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 font-mono text-sm">
+        <div className="bg-black/30 rounded-lg p-2 min-w-[100px]">
+          <div className="text-[10px] text-gray-400 uppercase font-bold">Time</div>
+          <div className="text-white">{formatTime(run.duration)}</div>
+        </div>
+        <div className="bg-black/30 rounded-lg p-2 min-w-[100px]">
+          <div className="text-[10px] text-gray-400 uppercase font-bold">Kills</div>
+          <div className="text-white">{run.kills}</div>
+        </div>
+        <div className="bg-black/30 rounded-lg p-2 min-w-[100px]">
+          <div className="text-[10px] text-gray-400 uppercase font-bold">Scrap Collected</div>
+          <div className="text-white">{run.scrapCollected}</div>
+        </div>
+        <div className="bg-black/30 rounded-lg p-2 min-w-[100px]">
+          <div className="text-[10px] text-gray-400 uppercase font-bold">Anomalies</div>
+          <div className="text-white">{run.anomalies.length}</div>
+        </div>
+      </div>
+      {!won && <p className="text-sm text-gray-300 mb-6">Cause: {run.cause}</p>}
+
+      {canEnterInitials && (
+        <form onSubmit={submit} className="flex items-center gap-3 mb-6">
+          <input
+            value={initials}
+            onChange={e => setInitials(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+            maxLength={3}
+            placeholder="AAA"
+            autoFocus
+            className="w-24 px-3 py-2 bg-black/40 border border-white/30 rounded-lg text-center text-2xl font-mono text-white tracking-[0.3em] uppercase pointer-events-auto focus:outline-none focus:border-white"
+          />
+          <button
+            type="submit"
+            disabled={!initials.trim()}
+            className="px-6 py-2 bg-amber-400 text-slate-900 enabled:hover:bg-amber-300 rounded-full font-bold transition-colors disabled:opacity-50 pointer-events-auto"
+          >
+            SAVE SCORE
+          </button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-3 mb-6">
+        {replay && (
+          <>
+            <button onClick={onWatchReplay} className={replayButtonClass}>
+              <Film size={16} /> WATCH REPLAY
+            </button>
+            <button onClick={onExportReplay} className={replayButtonClass}>
+              <Download size={16} /> EXPORT
+            </button>
+          </>
+        )}
+        <button onClick={() => fileInput.current?.click()} className={replayButtonClass}>
+          <Upload size={16} /> IMPORT REPLAY
+        </button>
+        <input ref={fileInput} type="file" accept=".json,application/json" onChange={importReplay} className="hidden" />
+      </div>
+      {importError && <p className="text-sm text-amber-300 font-mono -mt-3 mb-6">{importError}</p>}
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <button
+          onClick={onRestart}
+          className={`px-8 py-3 bg-white hover:bg-gray-200 rounded-full font-bold text-lg transition-colors pointer-events-auto ${won ? 'text-cyan-900' : 'text-red-900'}`}
+        >
+          {won ? 'FLY AGAIN' : 'REBOOT SEQUENCE'}
+        </button>
+        <button
+          onClick={onQuit}
+          className="px-8 py-3 bg-black/30 text-white hover:bg-black/50 rounded-full font-bold text-lg transition-colors pointer-events-auto"
+        >
+          MAIN MENU
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { InputAction, KeyBindings } from '../types';
+import { DEFAULT_BINDINGS, INPUT_ACTIONS, INPUT_ACTION_IDS, MAX_BINDINGS, MOUSE_BUTTONS, bindKey, findConflicts, formatKey } from '../services/inputService';
+
+interface KeyBindingsPanelProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+interface Slot {
+  action: InputAction;
+  index: number;
+}
+
+// Rebinding for the settings panel. Clicking a slot waits for the next key or mouse button;
+// Escape cancels and Delete or Backspace clears the slot. Keys used twice are flagged, not refused,
+// so a binding can be moved by setting the new one first.
+export const KeyBindingsPanel: React.FC<KeyBindingsPanelProps> = ({ bindings, onChange }) => {
+  const [listening, setListening] = useState<Slot | null>(null);
+  const conflicts = findConflicts(bindings);
+
+  useEffect(() => {
+    if (!listening) return;
+    const finish = (code: string | null) => {
+      onChange(bindKey(bindings, listening.action, listening.index, code));
+      setListening(null);
+    };
+    // Captured before the game and the pause menu see them
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') setListening(null);
+      else if (e.code === 'Delete' || e.code === 'Backspace') finish(null);
+      else finish(e.code);
+    };
+    const handleMouseDown = (e: MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (MOUSE_BUTTONS[e.button]) finish(MOUSE_BUTTONS[e.button]);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('mousedown', handleMouseDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('mousedown', handleMouseDown, true);
+    };
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-cyan-100">Controls</h3>
+        <button
+          onClick={() => onChange(DEFAULT_BINDINGS)}
+          className="px-2 py-1 rounded text-xs font-bold bg-slate-700 text-cyan-100 hover:bg-slate-600 pointer-events-auto"
+        >
+          RESET
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mb-3">Click a slot, then press a key or mouse button. Esc cancels, Delete clears.</div>
+
+      <div className="flex flex-col gap-1">
+        {INPUT_ACTION_IDS.map(action => (
+          <div key={action} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-gray-300">{INPUT_ACTIONS[action].label}</span>
+            {Array.from({ length: MAX_BINDINGS }, (_, index) => {
+              const code = bindings[action][index];
+              const active = listening?.action === action && listening.index === index;
+              const clash = code !== undefined && conflicts.has(code);
+              const style = active
+                ? 'bg-cyan-500 text-slate-900 animate-pulse'
+                : clash ? 'bg-red-900/40 text-red-300 border border-red-500/60' : 'bg-slate-700 text-cyan-100 hover:bg-slate-600';
+              return (
+                <button
+                  key={index}
+                  onClick={() => setListening({ action, index })}
+                  className={`w-20 px-2 py-1 rounded text-xs font-mono truncate transition-colors pointer-events-auto ${style}`}
+                >
+                  {active ? 'PRESS…' : code !== undefined ? formatKey(code) : '—'}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {conflicts.size > 0 && (
+        <div className="mt-3 text-xs text-red-300">
+          {[...conflicts].map(([code, actions]) => (
+            <div key={code}>{formatKey(code)} is bound to {actions.map(action => INPUT_ACTIONS[action].label).join(' and ')}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { GameMode, InputAction, KeyBindings, Records, Settings } from '../types';
+import { Play, History, Trophy, BookOpen, Settings as SettingsIcon, ArrowLeft, Infinity as InfinityIcon, Timer, Waves } from 'lucide-react';
+import { GAME_MODES, MODES, formatTime } from '../game/modes';
+import { SettingsPanel } from './SettingsPanel';
+import { SaveGame } from '../services/saveService';
+import { formatBinding } from '../services/inputService';
+
+const MODE_ICONS: Record<GameMode, React.ElementType> = {
+  ENDLESS: InfinityIcon,
+  TIMED: Timer,
+  WAVE_SURVIVAL: Waves
+};
+
+type MenuPage = 'MAIN' | 'SETTINGS' | 'SCORES' | 'HISTORY' | 'HOW_TO';
+
+interface MainMenuProps {
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  records: Records;
+  onStart: (mode: GameMode) => void;
+  savedRun: SaveGame | null; // An unfinished run that can be continued
+  onContinue: () => void;
+  onInteract: () => void; // First click anywhere unlocks audio
+}
+
+// Key names come from the player's bindings, so the page stays right after rebinding
+const getHowTo = (bindings: KeyBindings): { title: string; text: string }[] => {
+  const key = (action: InputAction) => formatBinding(bindings, action);
+  const keys = (actions: InputAction[]) => actions.map(key).join('');
+  return [
+    { title: 'Fly', text: `${keys(['MOVE_UP', 'MOVE_LEFT', 'MOVE_DOWN', 'MOVE_RIGHT'])} to thrust, the mouse aims. Settings has a twin-stick scheme that aims with ${keys(['AIM_UP', 'AIM_LEFT', 'AIM_DOWN', 'AIM_RIGHT'])} and tank controls, and keys can be rebound there. On touch screens put a thumb down on the left side to move and the right side to aim, the further you push the faster you fly. Settings has a layout editor for the touch controls.` },
+    { title: 'Controller', text: 'Plug in a gamepad and press any button. Left stick thrusts, right stick aims, the right trigger fires and the left one alt-fires, the bumpers dash, Start pauses. In menus the d-pad picks and A confirms.' },
+    { title: 'Dash', text: `${key('DASH')} bursts the ship forward, briefly untouchable. Each dash uses a charge from the meter at the top, which refills over time.` },
+    { title: 'Fight', text: `Your guns fire on their own, or switch to hold or toggle fire under Settings and use ${key('FIRE')}. ${key('ALT_FIRE')} sends a three-way volley that reloads slower, whatever the fire mode. The charge cannon powers up while firing and fires early, weaker, when you let go. Enemies come in waves, every other level ends in a boss fight.` },
+    { title: 'Scavenge', text: 'Destroyed ships drop scrap. Fly into a docking beacon after a level up to spend it on upgrades.' },
+    { title: 'Anomalies', text: 'Purple cores appear as your score climbs. Touch one to face a strange encounter and pick your fate.' },
+    { title: 'Pause', text: `${key('PAUSE')} pauses the game, on touch screens so does the on-screen pause button. Pausing saves your run, so you can continue it from the menu later.` }
+  ];
+};
+
+export const MainMenu: React.FC<MainMenuProps> = ({ settings, onSettingsChange, records, onStart, savedRun, onContinue, onInteract }) => {
+  const [page, setPage] = useState<MenuPage>('MAIN');
+  const [mode, setMode] = useState<GameMode>(GameMode.ENDLESS);
+
+  const buttonClass = "flex items-center justify-center gap-3 w-full px-8 py-3 rounded-full font-bold text-lg transition-colors pointer-events-auto";
+  const backButton = (
+    <button onClick={() => setPage('MAIN')} className={`${buttonClass} mt-6 bg-slate-800 text-cyan-100 hover:bg-slate-700`}>
+      <ArrowLeft size={20} /> BACK
+    </button>
+  );
+
+  return (
+    <div
+      onPointerDown={onInteract}
+      className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 z-50 text-center p-4 overflow-y-auto"
+    >
+      <h1 className="text-4xl md:text-6xl font-display font-bold text-cyan-400 tracking-[0.2em] mb-8 drop-shadow-[0_0_15px_rgba(34,211,238,0.6)]">
+        VIBE SHOOTER
+      </h1>
+
+      <div className="bg-slate-900 border border-cyan-500/50 rounded-lg max-w-xl w-full p-6 md:p-8 shadow-[0_0_50px_rgba(6,182,212,0.2)] text-left">
+        {page === 'MAIN' && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+              {GAME_MODES.map(id => {
+                const Icon = MODE_ICONS[id];
+                const selected = id === mode;
+                return (
+                  <button
+                    key={id}
+                    onClick={() => setMode(id)}
+                    className={`flex flex-col gap-2 p-3 rounded-lg border text-left transition-all pointer-events-auto ${selected ? 'bg-cyan-900/40 border-cyan-400' : 'bg-slate-800 border-slate-600 hover:bg-slate-700'}`}
+                  >
+                    <Icon className="text-cyan-400" size={20} />
+                    <h3 className="font-bold text-cyan-100">{MODES[id].name}</h3>
+                    <div className="text-xs text-gray-400">{MODES[id].description}</div>
+                    {records.bests[id] !== undefined && (
+                      <div className="text-xs font-mono text-amber-400 mt-auto">BEST {records.bests[id]}</div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-col gap-3">
+              {savedRun && (
+                <button onClick={onContinue} className={`${buttonClass} bg-amber-400 text-slate-900 hover:bg-amber-300`}>
+                  <History size={20} /> CONTINUE
+                  <span className="text-xs font-mono font-normal">
+                    {MODES[savedRun.stats.mode].name} • WAVE {savedRun.stats.wave} • {savedRun.stats.score.toString().padStart(6, '0')}
+                  </span>
+                </button>
+              )}
+              <button onClick={() => onStart(mode)} className={`${buttonClass} bg-cyan-500 text-slate-900 hover:bg-cyan-400`}>
+                <Play size={20} /> LAUNCH
+              </button>
+              <div className="grid grid-cols-3 gap-3">
+                <button onClick={() => setPage('SCORES')} className={`${buttonClass} bg-slate-800 text-cyan-100 hover:bg-slate-700 !px-2 text-sm`}>
+                  <Trophy size={18} /> <span className="hidden md:inline">SCORES</span>
+                </button>
+                <button onClick={() => setPage('HOW_TO')} className={`${buttonClass} bg-slate-800 text-cyan-100 hover:bg-slate-700 !px-2 text-sm`}>
+                  <BookOpen size={18} /> <span className="hidden md:inline">HOW TO</span>
+                </button>
+                <button onClick={() => setPage('SETTINGS')} className={`${buttonClass} bg-slate-800 text-cyan-100 hover:bg-slate-700 !px-2 text-sm`}>
+                  <SettingsIcon size={18} /> <span className="hidden md:inline">SETTINGS</span>
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {page === 'SETTINGS' && (
+          <>
+            <h2 className="text-2xl font-display text-cyan-100 mb-6">SETTINGS</h2>
+            <SettingsPanel settings={settings} onChange={onSettingsChange} />
+            {backButton}
+          </>
+        )}
+
+        {page === 'SCORES' && (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-display text-cyan-100">HIGH SCORES</h2>
+              <button onClick={() => setPage('HISTORY')} className="text-xs font-mono text-cyan-400 hover:text-cyan-200 pointer-events-auto">
+                RUN HISTORY →
+              </button>
+            </div>
+            {records.highScores.length === 0 ? (
+              <p className="text-gray-400 font-mono text-sm">No runs yet. Go make some history.</p>
+            ) : (
+              <div className="flex flex-col gap-2 font-mono text-sm">
+                {records.highScores.map((entry, i) => (
+                  <div key={`${entry.date}-${i}`} className="flex items-center justify-between gap-4 p-2 bg-slate-800 rounded">
+                    <span className="text-gray-500 w-6">{i + 1}</span>
+                    <span className="text-amber-300 w-10">{entry.initials}</span>
+                    <span className="flex-1 text-cyan-100">{MODES[entry.mode].name}</span>
+                    <span className="text-gray-400">WAVE {entry.wave}</span>
+                    <span className="text-white">{entry.score.toString().padStart(6, '0')}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {backButton}
+          </>
+        )}
+
+        {page === 'HISTORY' && (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-display text-cyan-100">RUN HISTORY</h2>
+              <button onClick={() => setPage('SCORES')} className="text-xs font-mono text-cyan-400 hover:text-cyan-200 pointer-events-auto">
+                ← HIGH SCORES
+              </button>
+            </div>
+            {records.history.length === 0 ? (
+              <p className="text-gray-400 font-mono text-sm">No runs yet. Go make some history.</p>
+            ) : (
+              <div className="flex flex-col gap-2 font-mono text-xs max-h-[50vh] overflow-y-auto">
+                {records.history.map((run, i) => (
+                  <div key={`${run.date}-${i}`} className="p-2 bg-slate-800 rounded">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-cyan-100">{MODES[run.mode].name}</span>
+                      <span className="text-gray-500">{new Date(run.date).toLocaleDateString()}</span>
+                      <span className="text-white">{run.score.toString().padStart(6, '0')}</span>
+                    </div>
+                    <div className="text-gray-400 mt-1">
+                      {formatTime(run.duration)} • WAVE {run.wave} • {run.kills} KILLS • {run.scrapCollected} SCRAP
+                    </div>
+                    <div className="text-gray-500 mt-1">{run.cause}</div>
+                    {run.anomalies.length > 0 && (
+                      <div className="text-purple-300/80 mt-1">{run.anomalies.join(' • ')}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {backButton}
+          </>
+        )}
+
+        {page === 'HOW_TO' && (
+          <>
+            <h2 className="text-2xl font-display text-cyan-100 mb-6">HOW TO PLAY</h2>
+            <div className="flex flex-col gap-3">
+              {getHowTo(settings.bindings).map(({ title, text }) => (
+                <div key={title} className="bg-black/40 p-3 rounded border-l-4 border-cyan-500">
+                  <h3 className="font-bold text-cyan-200 text-sm uppercase tracking-wider">{title}</h3>
+                  <p className="text-sm text-gray-300">{text}</p>
+                </div>
+              ))}
+            </div>
+            {backButton}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Settings } from '../types';
+import { Pause, Play, RotateCcw, Settings as SettingsIcon, House, ArrowLeft } from 'lucide-react';
+import { SettingsPanel } from './SettingsPanel';
+import { formatKey } from '../services/inputService';
+
+interface PauseMenuProps {
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+  controller: boolean;
+}
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({ settings, onSettingsChange, onResume, onRestart, onQuit, controller }) => {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const buttonClass = "flex items-center justify-center gap-3 w-full px-8 py-3 rounded-full font-bold text-lg transition-colors pointer-events-auto";
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 z-40 backdrop-blur-md p-4">
+      <div className="bg-slate-900 border border-cyan-500/50 rounded-lg max-w-md w-full p-6 md:p-8 shadow-[0_0_50px_rgba(6,182,212,0.2)] max-h-full overflow-y-auto">
+        <div className="flex items-center gap-3 mb-6">
+          {showSettings ? <SettingsIcon className="text-cyan-400" size={24} /> : <Pause className="text-cyan-400" size={24} />}
+          <h2 className="text-2xl md:text-3xl font-display text-cyan-100">{showSettings ? 'SETTINGS' : 'PAUSED'}</h2>
+        </div>
+
+        {showSettings ? (
+          <>
+            <SettingsPanel settings={settings} onChange={onSettingsChange} />
+            <button onClick={() => setShowSettings(false)} className={`${buttonClass} mt-6 bg-slate-800 text-cyan-100 hover:bg-slate-700`}>
+              <ArrowLeft size={20} /> BACK
+            </button>
+          </>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <button onClick={onResume} className={`${buttonClass} bg-cyan-500 text-slate-900 hover:bg-cyan-400`}>
+              <Play size={20} /> RESUME
+            </button>
+            <button onClick={onRestart} className={`${buttonClass} bg-slate-800 text-cyan-100 hover:bg-slate-700`}>
+              <RotateCcw size={20} /> RESTART
+            </button>
+            <button onClick={() => setShowSettings(true)} className={`${buttonClass} bg-slate-800 text-cyan-100 hover:bg-slate-700`}>
+              <SettingsIcon size={20} /> SETTINGS
+            </button>
+            <button onClick={onQuit} className={`${buttonClass} bg-slate-800 text-red-300 hover:bg-slate-700`}>
+              <House size={20} /> QUIT TO MENU
+            </button>
+          </div>
+        )}
+
+        <p className={`mt-6 text-center text-xs font-mono text-gray-500 ${controller ? '' : 'hidden md:block'}`}>
+          {controller ? 'START / B TO RESUME • D-PAD + A TO CHOOSE' : `${settings.bindings.PAUSE.map(formatKey).join(' / ')} TO RESUME`}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Film, Pause, Play, X } from 'lucide-react';
+import { ReplayControl, ReplayPlayer, ReplayView, REPLAY_SPEEDS } from '../game/replay';
+import { TICKS_PER_SECOND } from '../game/clock';
+import { MODES, formatTime } from '../game/modes';
+
+interface ReplayControlsProps {
+  player: ReplayPlayer;
+  view: ReplayView;
+  onControl: (change: ReplayControl) => void;
+  onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ player, view, onControl, onExit }) => {
+  const { world, replay, length } = player;
+  const seconds = (ticks: number) => Math.floor(ticks / TICKS_PER_SECOND);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-40 flex flex-col justify-between p-4 md:p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 bg-slate-900/80 border border-cyan-500/50 rounded-lg px-4 py-2">
+          <Film className="text-cyan-400" size={20} />
+          <div>
+            <div className="font-display font-bold text-cyan-100 tracking-widest">REPLAY</div>
+            <div className="text-xs font-mono text-gray-400 uppercase">{MODES[replay.mode].name}</div>
+          </div>
+        </div>
+        <div className="flex gap-3 font-mono text-sm">
+          <div className="bg-slate-900/80 rounded-lg px-3 py-2 text-right">
+            <div className="text-[10px] text-gray-400 font-bold">SCORE</div>
+            <div className="text-white">{world.score.toString().padStart(6, '0')}</div>
+          </div>
+          <div className="bg-slate-900/80 rounded-lg px-3 py-2 text-right">
+            <div className="text-[10px] text-gray-400 font-bold">WAVE</div>
+            <div className="text-white">{world.waves.wave}</div>
+          </div>
+          <div className="bg-slate-900/80 rounded-lg px-3 py-2 text-right">
+            <div className="text-[10px] text-gray-400 font-bold">HULL</div>
+            <div className="text-white">{Math.max(0, Math.ceil(world.player.health))}/{world.player.maxHealth}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 bg-slate-900/80 border border-cyan-500/30 rounded-lg p-3 pointer-events-auto">
+        <input
+          type="range"
+          min={0}
+          max={length}
+          value={view.tick}
+          onChange={e => onControl({ seek: Number(e.target.value) })}
+          className="w-full accent-cyan-400"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onControl({ paused: !view.paused })}
+              className="p-2 rounded-full bg-cyan-500 text-slate-900 hover:bg-cyan-400 transition-colors"
+            >
+              {view.paused ? <Play size={18} /> : <Pause size={18} />}
+            </button>
+            <span className="font-mono text-sm text-cyan-100">
+              {formatTime(seconds(view.tick))} / {formatTime(seconds(length))}
+            </span>
+          </div>
+          <div className="flex items-center gap-1 font-mono text-xs">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => onControl({ speed })}
+                className={`px-2 py-1 rounded transition-colors ${speed === view.speed ? 'bg-cyan-500 text-slate-900' : 'bg-slate-800 text-cyan-100 hover:bg-slate-700'}`}
+              >
+                {speed}×
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onExit}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-800 text-cyan-100 hover:bg-slate-700 font-bold text-sm transition-colors"
+          >
+            <X size={16} /> EXIT
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Settings } from '../types';
+import { ANOMALY_PROVIDERS, ANOMALY_PROVIDER_IDS } from '../services/anomalyService';
+import { CONTROL_SCHEMES, CONTROL_SCHEME_IDS, FIRE_MODES, FIRE_MODE_IDS } from '../services/inputService';
+import { KeyBindingsPanel } from './KeyBindingsPanel';
+import { TouchLayoutEditor } from './TouchLayoutEditor';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+type ToggleKey = 'soundEnabled' | 'autoPause' | 'vibration' | 'aimAssist';
+type SliderKey = 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'stickDeadzone' | 'triggerDeadzone';
+
+interface Slider {
+  key: SliderKey;
+  label: string;
+  max: number; // Percent
+}
+
+const TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  { key: 'soundEnabled', label: 'Sound', description: 'Synth sound effects and music' },
+  { key: 'autoPause', label: 'Auto Pause', description: 'Pause when the window loses focus or the tab is hidden' },
+  { key: 'vibration', label: 'Rumble', description: 'Controller and phone vibration when your ship is hit' },
+  { key: 'aimAssist', label: 'Aim Assist', description: 'Stick and touch aim bends towards nearby enemies' }
+];
+
+const VOLUMES: Slider[] = [
+  { key: 'masterVolume', label: 'Master', max: 100 },
+  { key: 'sfxVolume', label: 'Effects', max: 100 },
+  { key: 'musicVolume', label: 'Music', max: 100 }
+];
+
+const DEADZONES: Slider[] = [
+  { key: 'stickDeadzone', label: 'Sticks', max: 60 },
+  { key: 'triggerDeadzone', label: 'Triggers', max: 60 }
+];
+
+const inputClass = "w-full px-3 py-2 bg-black/40 border border-slate-600 focus:border-cyan-400 rounded text-sm font-mono text-cyan-100 focus:outline-none pointer-events-auto";
+
+// Settings rows shared by the pause menu and the main menu
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const provider = ANOMALY_PROVIDERS[settings.anomalyProvider] ?? ANOMALY_PROVIDERS.OFFLINE;
+
+  // A row of buttons picking one of `ids`, like the anomaly source
+  const choices = <T extends string>(ids: T[], names: Record<T, { name: string }>, value: T, pick: (id: T) => void) => (
+    <div className="grid grid-cols-3 gap-2">
+      {ids.map(id => (
+        <button
+          key={id}
+          onClick={() => pick(id)}
+          className={`px-2 py-2 rounded text-sm font-bold transition-colors pointer-events-auto ${id === value ? 'bg-cyan-500 text-slate-900' : 'bg-slate-700 text-cyan-100 hover:bg-slate-600'}`}
+        >
+          {names[id].name}
+        </button>
+      ))}
+    </div>
+  );
+
+  const sliders = (rows: Slider[]) => (
+    <div className="flex flex-col gap-2">
+      {rows.map(({ key, label, max }) => (
+        <label key={key} className="flex items-center gap-3 text-xs text-gray-400">
+          <span className="w-14">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={max}
+            value={Math.round(settings[key] * 100)}
+            onChange={e => onChange({ ...settings, [key]: Number(e.target.value) / 100 })}
+            className="flex-1 accent-cyan-400 pointer-events-auto"
+          />
+          <span className="w-9 text-right font-mono text-cyan-100">{Math.round(settings[key] * 100)}%</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      {TOGGLES.map(({ key, label, description }) => (
+        <button
+          key={key}
+          onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+          className="flex items-center justify-between gap-4 p-3 bg-slate-800 hover:bg-slate-700 border border-slate-600 hover:border-cyan-400 rounded-lg text-left transition-all pointer-events-auto"
+        >
+          <div>
+            <h3 className="font-bold text-cyan-100">{label}</h3>
+            <div className="text-xs text-gray-400">{description}</div>
+          </div>
+          <div className={`w-12 h-6 rounded-full p-1 transition-colors ${settings[key] ? 'bg-cyan-500' : 'bg-gray-700'}`}>
+            <div className={`w-4 h-4 rounded-full bg-white transition-transform ${settings[key] ? 'translate-x-6' : ''}`} />
+          </div>
+        </button>
+      ))}
+
+      <div className={`p-3 bg-slate-800 border border-slate-600 rounded-lg ${settings.soundEnabled ? '' : 'opacity-50'}`}>
+        <h3 className="font-bold text-cyan-100 mb-2">Volume</h3>
+        {sliders(VOLUMES)}
+      </div>
+
+      <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+        <h3 className="font-bold text-cyan-100">Control Scheme</h3>
+        <div className="text-xs text-gray-400 mb-3">{(CONTROL_SCHEMES[settings.controlScheme] ?? CONTROL_SCHEMES.MOUSE).description}</div>
+        {choices(CONTROL_SCHEME_IDS, CONTROL_SCHEMES, settings.controlScheme, controlScheme => onChange({ ...settings, controlScheme }))}
+      </div>
+
+      <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+        <h3 className="font-bold text-cyan-100">Firing</h3>
+        <div className="text-xs text-gray-400 mb-3">{(FIRE_MODES[settings.fireMode] ?? FIRE_MODES.AUTO).description}</div>
+        {choices(FIRE_MODE_IDS, FIRE_MODES, settings.fireMode, fireMode => onChange({ ...settings, fireMode }))}
+      </div>
+
+      <KeyBindingsPanel bindings={settings.bindings} onChange={bindings => onChange({ ...settings, bindings })} />
+
+      <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+        <h3 className="font-bold text-cyan-100">Controller Deadzones</h3>
+        <div className="text-xs text-gray-400 mb-2">How far a stick or trigger moves before it counts</div>
+        {sliders(DEADZONES)}
+      </div>
+
+      <TouchLayoutEditor layout={settings.touchLayout} onChange={touchLayout => onChange({ ...settings, touchLayout })} />
+
+      <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+        <h3 className="font-bold text-cyan-100">Anomaly Source</h3>
+        <div className="text-xs text-gray-400 mb-3">
+          {provider.description}. Falls back to offline if it can't be reached.
+        </div>
+        {choices(ANOMALY_PROVIDER_IDS, ANOMALY_PROVIDERS, settings.anomalyProvider, anomalyProvider => onChange({ ...settings, anomalyProvider }))}
+        {settings.anomalyProvider === 'OPENAI' && (
+          <div className="flex flex-col gap-2 mt-3">
+            <label className="text-xs text-gray-400">
+              Server URL
+              <input
+                value={settings.llmUrl}
+                onChange={e => onChange({ ...settings, llmUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Model
+              <input
+                value={settings.llmModel}
+                onChange={e => onChange({ ...settings, llmModel: e.target.value })}
+                placeholder="llama3.2"
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { TouchLayout } from '../types';
+import { BUTTON_SIZE, DEFAULT_TOUCH_LAYOUT, STICK_RADIUS, TOUCH_CONTROLS, TOUCH_CONTROL_IDS, TouchControl } from '../services/touchService';
+
+interface TouchLayoutEditorProps {
+  layout: TouchLayout;
+  onChange: (layout: TouchLayout) => void;
+}
+
+const SLIDERS: { key: 'size' | 'opacity'; label: string; min: number; max: number }[] = [
+  { key: 'size', label: 'Size', min: 50, max: 150 },
+  { key: 'opacity', label: 'Opacity', min: 10, max: 100 }
+];
+
+const MARGIN = 0.04; // Controls can't be dragged right up to the edge
+
+// Touch control layout for the settings panel. A small copy of the screen shows where each stick
+// rests and each button sits; drag them around with a finger or the mouse.
+export const TouchLayoutEditor: React.FC<TouchLayoutEditorProps> = ({ layout, onChange }) => {
+  const screenRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<TouchControl | null>(null);
+
+  // Controls are drawn at their real size relative to the screen
+  const sizeOf = (control: TouchControl) =>
+    (control === 'moveStick' || control === 'aimStick' ? STICK_RADIUS * 2 : control === 'dashButton' ? BUTTON_SIZE : BUTTON_SIZE * 0.7) * layout.size;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = screenRef.current?.getBoundingClientRect();
+    if (!dragging || !rect) return;
+    const clamp = (value: number) => Math.min(1 - MARGIN, Math.max(MARGIN, value));
+    onChange({
+      ...layout,
+      [dragging]: { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) }
+    });
+  };
+
+  return (
+    <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-cyan-100">Touch Controls</h3>
+        <button
+          onClick={() => onChange(DEFAULT_TOUCH_LAYOUT)}
+          className="px-2 py-1 rounded text-xs font-bold bg-slate-700 text-cyan-100 hover:bg-slate-600 pointer-events-auto"
+        >
+          RESET
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mb-3">Drag to rearrange. The sticks rest here and jump to wherever your thumb lands on their side.</div>
+
+      <div
+        ref={screenRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+        style={{ aspectRatio: `${window.innerWidth} / ${window.innerHeight}` }}
+        className="relative w-full bg-slate-950 border border-slate-600 rounded overflow-hidden touch-none pointer-events-auto"
+      >
+        {/* Which side of the screen each stick takes */}
+        <div
+          className="absolute inset-y-0 border-l border-dashed border-slate-700"
+          style={{ left: `${(layout.moveStick.x + layout.aimStick.x) / 2 * 100}%` }}
+        />
+        {TOUCH_CONTROL_IDS.map(control => (
+          <div
+            key={control}
+            onPointerDown={e => {
+              e.preventDefault();
+              e.currentTarget.setPointerCapture(e.pointerId); // Keep dragging past the edge of the preview
+              setDragging(control);
+            }}
+            style={{
+              left: `${layout[control].x * 100}%`,
+              top: `${layout[control].y * 100}%`,
+              width: `${sizeOf(control) / window.innerWidth * 100}%`,
+              opacity: layout.opacity,
+              transform: 'translate(-50%, -50%)'
+            }}
+            className={`absolute aspect-square rounded-full border-2 flex items-center justify-center text-[9px] font-bold cursor-grab select-none ${dragging === control ? 'border-cyan-300 bg-cyan-500/30 text-cyan-100' : 'border-white/40 bg-white/10 text-gray-300'}`}
+          >
+            {TOUCH_CONTROLS[control].label}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 mt-3">
+        {SLIDERS.map(({ key, label, min, max }) => (
+          <label key={key} className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="w-14">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              value={Math.round(layout[key] * 100)}
+              onChange={e => onChange({ ...layout, [key]: Number(e.target.value) / 100 })}
+              className="flex-1 accent-cyan-400 pointer-events-auto"
+            />
+            <span className="w-9 text-right font-mono text-cyan-100">{Math.round(layout[key] * 100)}%</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,108 +1,236 @@
 import React from 'react';
-import { GameState, PlayerStats, AnomalyEvent } from '../types';
-import { Heart, Loader2, ShieldAlert, Coins, Crosshair, Github, RotateCw } from 'lucide-react';
+import { GameState, PlayerStats, AnomalyEvent, AnomalyOutcome, UpgradeId, Announcement, Settings, GameMode, RunRecord, Records } from '../types';
+import { Heart, Coins, Crosshair, Github, RotateCw, Store, Shield, Rocket, Gauge, Magnet, Zap, Skull, Pause, Timer, BatteryCharging, Swords, Wind } from 'lucide-react';
+import { WEAPONS } from '../game/weapons';
+import { UPGRADES, UPGRADE_IDS, getUpgradeCost } from '../game/upgrades';
+import { MODES, formatTime } from '../game/modes';
+import { MODIFIERS } from '../game/effects';
+import { PauseMenu } from './PauseMenu';
+import { MainMenu } from './MainMenu';
+import { GameOverScreen } from './GameOverScreen';
+import { SaveGame } from '../services/saveService';
+import { ReplayControls } from './ReplayControls';
+import { AnomalyScreen } from './AnomalyScreen';
+import { Replay, ReplayControl, ReplayPlayer, ReplayView } from '../game/replay';
+import { formatBinding } from '../services/inputService';
+import { isTouchScreen } from '../services/touchService';
+
+const UPGRADE_ICONS: Record<UpgradeId, React.ElementType> = {
+  MAX_HEALTH: Shield,
+  THRUST: Rocket,
+  FIRE_RATE: Gauge,
+  MAGNET: Magnet,
+  DAMAGE: Zap,
+  DASH_CHARGES: BatteryCharging,
+  DASH_STRIKE: Swords
+};
 
 interface UIOverlayProps {
   gameState: GameState;
   stats: PlayerStats;
   anomaly: AnomalyEvent | null;
-  onStart: () => void;
+  anomalyStage: string | null; // Null for the opening stage
+  anomalyOutcome: AnomalyOutcome | null; // Result of the last choice, shown until dismissed
+  announcement: Announcement | null;
+  onStart: (mode: GameMode) => void;
+  savedRun: SaveGame | null;
+  onContinue: () => void;
   onRestart: () => void;
   onOptionSelect: (index: number) => void;
+  onOutcomeContinue: () => void;
   loadingAnomaly: boolean;
+  onPurchaseUpgrade: (id: UpgradeId) => void;
+  onLeaveShop: () => void;
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onQuit: () => void;
+  records: Records;
+  lastRun: RunRecord | null;
+  previousBest: number;
+  canEnterInitials: boolean;
+  onSubmitInitials: (initials: string) => void;
+  onInteract: () => void;
+  replay: Replay | null; // Recording of the run that just ended
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  onImportReplay: (file: File) => Promise<void>;
+  replayPlayer: ReplayPlayer | null;
+  replayView: ReplayView;
+  onReplayControl: (change: ReplayControl) => void;
+  onExitReplay: () => void;
+  controller: boolean; // A gamepad is connected, prompts show its buttons
 }
 
 export const UIOverlay: React.FC<UIOverlayProps> = ({
   gameState,
   stats,
   anomaly,
+  anomalyStage,
+  anomalyOutcome,
+  announcement,
   onStart,
+  savedRun,
+  onContinue,
   onRestart,
   onOptionSelect,
-  loadingAnomaly
+  onOutcomeContinue,
+  loadingAnomaly,
+  onPurchaseUpgrade,
+  onLeaveShop,
+  settings,
+  onSettingsChange,
+  onPause,
+  onResume,
+  onQuit,
+  records,
+  lastRun,
+  previousBest,
+  canEnterInitials,
+  onSubmitInitials,
+  onInteract,
+  replay,
+  onWatchReplay,
+  onExportReplay,
+  onImportReplay,
+  replayPlayer,
+  replayView,
+  onReplayControl,
+  onExitReplay,
+  controller
 }) => {
+  // Key prompts follow the control scheme
+  const tank = settings.controlScheme === 'TANK';
+  const aimKeys = settings.controlScheme === 'MOUSE' ? 'MOUSE'
+    : (tank ? ['MOVE_LEFT', 'MOVE_RIGHT'] as const : ['AIM_UP', 'AIM_LEFT', 'AIM_DOWN', 'AIM_RIGHT'] as const).map(action => formatBinding(settings.bindings, action)).join('');
   
-  // Replaced MENU with LOADING screen
-  if (gameState === GameState.LOADING) {
+  if (gameState === GameState.MENU) {
     return (
-      <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/95 z-50 text-center p-4">
-        <Loader2 size={64} className="text-cyan-400 animate-spin mb-6" />
-        <h2 className="text-2xl font-display font-bold text-cyan-400 tracking-[0.5em] animate-pulse">
-          INITIALIZING SYSTEMS...
-        </h2>
-      </div>
+      <MainMenu
+        settings={settings}
+        onSettingsChange={onSettingsChange}
+        records={records}
+        onStart={onStart}
+        savedRun={savedRun}
+        onContinue={onContinue}
+        onInteract={onInteract}
+      />
     );
   }
 
-  // Fallback if somehow we are in MENU state (unused now)
-  if (gameState === GameState.MENU) {
-      return null; 
+  if (gameState === GameState.PAUSED) {
+    return (
+      <PauseMenu
+        settings={settings}
+        onSettingsChange={onSettingsChange}
+        onResume={onResume}
+        onRestart={onRestart}
+        onQuit={onQuit}
+        controller={controller}
+      />
+    );
   }
 
-  if (gameState === GameState.GAME_OVER) {
+  if (gameState === GameState.GAME_OVER && lastRun) {
     return (
-      <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/80 z-50 text-center p-4 backdrop-blur-sm">
-        <h2 className="text-5xl font-display font-bold text-red-500 mb-4">CRITICAL FAILURE</h2>
-        <p className="text-2xl text-white mb-2">Score: {stats.score}</p>
-        <p className="text-xl text-gray-300 mb-8">Scrap Collected: {stats.scrap}</p>
-        <button
-          onClick={onRestart}
-          className="px-8 py-3 bg-white text-red-900 hover:bg-gray-200 rounded-full font-bold text-lg transition-colors pointer-events-auto"
-        >
-          REBOOT SEQUENCE
-        </button>
-      </div>
+      <GameOverScreen
+        run={lastRun}
+        previousBest={previousBest}
+        canEnterInitials={canEnterInitials}
+        onSubmitInitials={onSubmitInitials}
+        onRestart={onRestart}
+        onQuit={onQuit}
+        replay={replay}
+        onWatchReplay={onWatchReplay}
+        onExportReplay={onExportReplay}
+        onImportReplay={onImportReplay}
+      />
     );
   }
 
-  if (gameState === GameState.ANOMALY || loadingAnomaly) {
+  if (gameState === GameState.REPLAY && replayPlayer) {
+    return (
+      <ReplayControls
+        player={replayPlayer}
+        view={replayView}
+        onControl={onReplayControl}
+        onExit={onExitReplay}
+      />
+    );
+  }
+
+  if (gameState === GameState.SHOP) {
     return (
       <div className="absolute inset-0 flex items-center justify-center bg-black/70 z-40 backdrop-blur-md p-4">
-        <div className="bg-slate-900 border border-purple-500/50 rounded-lg max-w-2xl w-full p-8 shadow-[0_0_50px_rgba(168,85,247,0.2)] relative overflow-hidden">
-          
-          {/* Background grid effect */}
-          <div className="absolute inset-0 bg-[linear-gradient(to_right,#4f4f4f2e_1px,transparent_1px),linear-gradient(to_bottom,#4f4f4f2e_1px,transparent_1px)] bg-[size:14px_24px] [mask-image:radial-gradient(ellipse_60%_50%_at_50%_0%,#000_70%,transparent_100%)] pointer-events-none"></div>
-
-          {loadingAnomaly ? (
-            <div className="flex flex-col items-center justify-center py-12">
-              <Loader2 size={48} className="text-purple-400 animate-spin mb-4" />
-              <p className="text-purple-300 font-mono animate-pulse">Loading...</p>
+        <div className="bg-slate-900 border border-sky-500/50 rounded-lg max-w-3xl w-full p-6 md:p-8 shadow-[0_0_50px_rgba(56,189,248,0.2)] max-h-full overflow-y-auto">
+          <div className="flex items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-3">
+              <Store className="text-sky-400" size={24} />
+              <h2 className="text-2xl md:text-3xl font-display text-sky-100">DOCKING BAY</h2>
             </div>
-          ) : anomaly ? (
-            <div className="relative z-10">
-              <div className="flex items-center gap-3 mb-4">
-                <ShieldAlert className="text-purple-400" size={24} />
-                <h2 className="text-3xl font-display text-purple-100">{anomaly.title}</h2>
-              </div>
-              
-              <div className="bg-black/40 p-4 rounded border-l-4 border-purple-500 mb-8">
-                <p className="text-lg text-gray-300 leading-relaxed font-light">
-                  {anomaly.description}
-                </p>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {anomaly.options.map((option, idx) => (
-                  <button
-                    key={idx}
-                    onClick={() => onOptionSelect(idx)}
-                    className="group relative p-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 hover:border-purple-400 rounded-lg text-left transition-all overflow-hidden pointer-events-auto"
-                  >
-                     <div className="absolute inset-0 w-1 bg-purple-500 transition-all group-hover:w-full opacity-10"></div>
-                     <h3 className="font-bold text-purple-200 mb-1 relative z-10">{option.text}</h3>
-                     <div className="text-xs text-gray-500 uppercase tracking-wider relative z-10">
-                       Probability Effect: {option.effect}
-                     </div>
-                  </button>
-                ))}
-              </div>
+            <div className="flex items-center gap-2 font-mono text-xl text-amber-400">
+              <Coins size={20} />
+              {stats.scrap}
             </div>
-          ) : null}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+            {UPGRADE_IDS.map(id => {
+              const def = UPGRADES[id];
+              const tier = stats.upgrades[id];
+              const cost = getUpgradeCost(id, tier);
+              const affordable = cost !== null && stats.scrap >= cost;
+              const Icon = UPGRADE_ICONS[id];
+              return (
+                <button
+                  key={id}
+                  onClick={() => onPurchaseUpgrade(id)}
+                  disabled={!affordable}
+                  className="flex items-center gap-3 p-3 bg-slate-800 enabled:hover:bg-slate-700 border border-slate-600 enabled:hover:border-sky-400 rounded-lg text-left transition-all disabled:opacity-50 pointer-events-auto"
+                >
+                  <Icon className="text-sky-400 shrink-0" size={20} />
+                  <div className="flex-1">
+                    <h3 className="font-bold text-sky-100">{def.name}</h3>
+                    <div className="text-xs text-gray-400">{def.description}</div>
+                    <div className="flex gap-1 mt-1">
+                      {Array.from({ length: def.maxTier }, (_, i) => (
+                        <div key={i} className={`h-1 w-4 rounded-full ${i < tier ? 'bg-sky-400' : 'bg-gray-700'}`} />
+                      ))}
+                    </div>
+                  </div>
+                  <div className="font-mono text-amber-400 text-sm">
+                    {cost === null ? 'MAX' : cost}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={onLeaveShop}
+            className="w-full px-8 py-3 bg-sky-500 text-slate-900 hover:bg-sky-400 rounded-full font-bold text-lg transition-colors pointer-events-auto"
+          >
+            UNDOCK
+          </button>
         </div>
       </div>
     );
   }
 
+  if (gameState === GameState.ANOMALY || loadingAnomaly) {
+    return (
+      <AnomalyScreen
+        anomaly={anomaly}
+        stageId={anomalyStage}
+        outcome={anomalyOutcome}
+        loading={loadingAnomaly}
+        onOptionSelect={onOptionSelect}
+        onContinue={onOutcomeContinue}
+      />
+    );
+  }
+
   // HUD
   return (
     <>
@@ -116,6 +244,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
       <div className="absolute inset-0 pointer-events-none p-4 md:p-6 flex flex-col justify-between z-30">
         {/* Top Bar */}
         <div className="flex flex-col items-start gap-2 md:flex-row md:justify-between md:items-start">
+          <div className="flex flex-col gap-2">
           <div className="flex gap-2 md:gap-6">
             {/* Health */}
             <div className="bg-slate-900/80 backdrop-blur border border-slate-700 rounded-lg p-2 md:p-3 flex items-center gap-2 md:gap-3 min-w-[120px] md:min-w-[160px]">
@@ -147,10 +276,75 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
                 <div className="text-lg md:text-xl font-mono text-white leading-none">{stats.scrap}</div>
               </div>
             </div>
+
+            {/* Weapon */}
+            <div className="bg-slate-900/80 backdrop-blur border border-slate-700 rounded-lg p-2 md:p-3 flex items-center gap-2 md:gap-3 min-w-[100px] md:min-w-[160px]">
+              <div className="bg-cyan-900/30 p-1.5 md:p-2 rounded-full">
+                <Crosshair className="text-cyan-400" size={16} />
+              </div>
+              <div>
+                <div className="text-[10px] md:text-xs text-gray-400 uppercase font-bold">{WEAPONS[stats.weapon.type].name}</div>
+                <div className="text-lg md:text-xl font-mono text-white leading-none">MK {stats.weapon.tier}</div>
+              </div>
+            </div>
+
+            {/* Dash */}
+            <div className="bg-slate-900/80 backdrop-blur border border-slate-700 rounded-lg p-2 md:p-3 flex items-center gap-2 md:gap-3 min-w-[90px] md:min-w-[130px]">
+              <div className="bg-sky-900/30 p-1.5 md:p-2 rounded-full">
+                <Wind className={stats.dash.energy >= 1 ? 'text-sky-300' : 'text-slate-500'} size={16} />
+              </div>
+              <div className="flex-1">
+                <div className="text-[10px] md:text-xs text-gray-400 uppercase font-bold">Dash</div>
+                <div className="flex gap-1 mt-1">
+                  {Array.from({ length: stats.dash.charges }, (_, i) => {
+                    const fill = Math.max(0, Math.min(1, stats.dash.energy - i));
+                    return (
+                      <div key={i} className="flex-1 bg-gray-700 h-1.5 rounded-full overflow-hidden">
+                        <div className={`h-full ${fill >= 1 ? 'bg-sky-400' : 'bg-sky-700'}`} style={{ width: `${fill * 100}%` }} />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Active Modifiers */}
+          {stats.modifiers.length > 0 && (
+            <div className="flex flex-wrap gap-1 max-w-md">
+              {stats.modifiers.map(({ id, timeLeft }) => {
+                const modifier = MODIFIERS[id];
+                return (
+                  <div
+                    key={id}
+                    title={modifier.description}
+                    className={`bg-slate-900/80 backdrop-blur border rounded px-2 py-0.5 flex items-center gap-1.5 text-[10px] md:text-xs font-mono ${modifier.kind === 'DEBUFF' ? 'border-red-500/60' : 'border-slate-700'}`}
+                  >
+                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: modifier.color }} />
+                    <span className="uppercase font-bold" style={{ color: modifier.color }}>{modifier.name}</span>
+                    <span className={timeLeft !== null && timeLeft <= 3 ? 'text-red-400 animate-pulse' : 'text-gray-400'}>
+                      {timeLeft === null ? 'RUN' : `${timeLeft}s`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
           </div>
 
           {/* Score & Github */}
           <div className="flex items-start gap-6 pointer-events-auto absolute top-4 right-4 md:static">
+              {/* Pause. Touch screens have their own among the touch controls. */}
+              {!isTouchScreen() && (
+                <button
+                    onClick={onPause}
+                    className="flex items-center text-gray-400 hover:text-white transition-all bg-black/20 hover:bg-black/60 p-2 rounded-full backdrop-blur-sm h-fit"
+                    aria-label="Pause"
+                >
+                    <Pause size={20} />
+                </button>
+              )}
+
               {/* GitHub Link - Hidden on Mobile */}
               <a
                   href="https://github.com/StarKnightt/vibe-shooter"
@@ -168,20 +362,74 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
                       {stats.score.toString().padStart(6, '0')}
                   </div>
                   <div className="text-[10px] tracking-widest md:text-sm text-cyan-400 uppercase md:tracking-[0.3em]">Current Score</div>
+                  <div className="text-[10px] md:text-xs text-gray-400 font-mono mt-1">
+                      LVL {stats.level} • WAVE {stats.wave}{MODES[stats.mode].waveTarget !== null && `/${MODES[stats.mode].waveTarget}`}
+                  </div>
+                  {stats.timeLeft !== null && (
+                      <div className={`flex items-center justify-end gap-1 text-sm md:text-lg font-mono mt-1 ${stats.timeLeft <= 30 ? 'text-red-400 animate-pulse' : 'text-white'}`}>
+                          <Timer size={16} />
+                          {formatTime(stats.timeLeft)}
+                      </div>
+                  )}
               </div>
           </div>
         </div>
 
+        {/* Boss Health Bar */}
+        {stats.boss && (
+          <div className="absolute top-24 md:top-6 left-1/2 -translate-x-1/2 w-[60%] md:w-[40%] pointer-events-none">
+            <div className="flex items-center justify-between mb-1 text-xs md:text-sm font-display tracking-widest">
+              <span className="flex items-center gap-2 text-red-400">
+                <Skull size={16} />
+                {stats.boss.name.toUpperCase()}
+              </span>
+              <span className="text-gray-400 font-mono">PHASE {stats.boss.phase}/{stats.boss.phaseCount}</span>
+            </div>
+            <div className="w-full bg-gray-800 h-3 rounded-full overflow-hidden border border-red-900/60">
+              <div
+                className="bg-gradient-to-r from-red-600 to-orange-500 h-full transition-all duration-150"
+                style={{ width: `${(stats.boss.health / stats.boss.maxHealth) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Wave / Level Announcements */}
+        {announcement && (
+          <div key={announcement.id} className="absolute top-1/3 left-1/2 -translate-x-1/2 -translate-y-1/2 text-center pointer-events-none animate-pulse">
+            <h2 className="text-3xl md:text-5xl font-display font-bold text-cyan-300 tracking-[0.3em] drop-shadow-[0_0_15px_rgba(34,211,238,0.6)]">
+              {announcement.title}
+            </h2>
+            {announcement.subtitle && (
+              <p className="text-sm md:text-lg text-gray-300 font-mono mt-2 uppercase tracking-widest">{announcement.subtitle}</p>
+            )}
+          </div>
+        )}
+
         {/* Bottom Instructions */}
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-center opacity-50 text-sm font-mono text-white pointer-events-none">
-           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">WASD</span> 
-           <span className="hidden md:inline"> THRUST </span>
+           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'L STICK' : (tank ? ['MOVE_UP', 'MOVE_DOWN'] as const : ['MOVE_UP', 'MOVE_LEFT', 'MOVE_DOWN', 'MOVE_RIGHT'] as const).map(action => formatBinding(settings.bindings, action)).join('')}</span> 
+           <span className="hidden md:inline"> {tank && !controller ? 'DRIVE' : 'THRUST'} </span>
+           <span className="mx-2 hidden md:inline">•</span>
+           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'R STICK' : aimKeys}</span> 
+           <span className="hidden md:inline"> {tank && !controller ? 'TURN' : 'AIM'} </span>
+           <span className="mx-2 hidden md:inline">•</span>
+           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'LB/RB' : formatBinding(settings.bindings, 'DASH')}</span> 
+           <span className="hidden md:inline"> DASH </span>
            <span className="mx-2 hidden md:inline">•</span>
-           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">MOUSE</span> 
-           <span className="hidden md:inline"> AIM </span>
+           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'START' : formatBinding(settings.bindings, 'PAUSE')}</span> 
+           <span className="hidden md:inline"> PAUSE </span>
+           {settings.fireMode !== 'AUTO' && (
+             <>
+               <span className="mx-2 hidden md:inline">•</span>
+               <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'RT' : formatBinding(settings.bindings, 'FIRE')}</span> 
+               <span className="hidden md:inline"> {settings.fireMode === 'TOGGLE' ? 'TOGGLE FIRE' : 'FIRE'} </span>
+             </>
+           )}
            <span className="mx-2 hidden md:inline">•</span>
-           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden">AUTO FIRE</span>
-           <span className="md:hidden block mt-2 text-xs opacity-70">TOUCH & DRAG TO MOVE/AIM</span>
+           <span className="bg-white/10 px-2 py-1 rounded mx-1 hidden md:inline">{controller ? 'LT' : formatBinding(settings.bindings, 'ALT_FIRE')}</span>
+           <span className="hidden md:inline"> ALT FIRE </span>
+           {!controller && <span className="md:hidden block mt-2 text-xs opacity-70">TOUCH & DRAG TO MOVE/AIM</span>}
         </div>
       </div>
     </>
@@ -1,5 +1,6 @@
-export const CANVAS_WIDTH = window.innerWidth;
-export const CANVAS_HEIGHT = window.innerHeight;
+// The headless engine can load this outside a browser, so don't assume a window
+export const CANVAS_WIDTH = typeof window === 'undefined' ? 1280 : window.innerWidth;
+export const CANVAS_HEIGHT = typeof window === 'undefined' ? 720 : window.innerHeight;
 
 export const PLAYER_SPEED = 5;
 export const PLAYER_ROTATION_SPEED = 0.1;
@@ -14,7 +15,8 @@ export const COLORS = {
   SCRAP: '#fbbf24', // Amber 400
   ANOMALY: '#a855f7', // Purple 500
   BG: '#0f172a', // Slate 900
-  HEALTH: '#22c55e' // Green 500
+  HEALTH: '#22c55e', // Green 500
+  BEACON: '#38bdf8' // Sky 400
 };
 
 export const KEY_CODES = {
@@ -22,6 +24,15 @@ export const KEY_CODES = {
   A: 'KeyA',
   S: 'KeyS',
   D: 'KeyD',
+  E: 'KeyE',
+  P: 'KeyP',
+  UP: 'ArrowUp',
+  DOWN: 'ArrowDown',
+  LEFT: 'ArrowLeft',
+  RIGHT: 'ArrowRight',
   SPACE: 'Space',
-  SHIFT: 'ShiftLeft'
+  SHIFT: 'ShiftLeft',
+  ESCAPE: 'Escape',
+  MOUSE_LEFT: 'MouseLeft',
+  MOUSE_RIGHT: 'MouseRight'
 };
@@ -0,0 +1,26 @@
+import { Entity, Vector2 } from '../types';
+import { isEnemy } from './world';
+
+// Aim assist for sticks and touch, which can't point as finely as a mouse. The aim is pulled
+// towards whichever enemy is closest to the line it already points along, if any is near it.
+// It only bends the aim the input asked for, so the engine and replays never know about it.
+
+const ASSIST_CONE = 0.3; // Radians either side of the aim an enemy can be in
+const ASSIST_RANGE = 600;
+const ASSIST_PULL = 0.8; // How much of the way to the enemy the aim turns
+
+// Signed difference from angle a to angle b, -PI to PI
+const angleTo = (a: number, b: number) => Math.atan2(Math.sin(b - a), Math.cos(b - a));
+
+export const assistAim = (entities: Entity[], from: Vector2, aim: number): number => {
+  let best: number | null = null;
+  for (const ent of entities) {
+    if (!isEnemy(ent) || ent.dead) continue;
+    const dx = ent.pos.x - from.x;
+    const dy = ent.pos.y - from.y;
+    if (Math.hypot(dx, dy) > ASSIST_RANGE) continue;
+    const diff = angleTo(aim, Math.atan2(dy, dx));
+    if (Math.abs(diff) <= ASSIST_CONE && (best === null || Math.abs(diff) < Math.abs(best))) best = diff;
+  }
+  return best === null ? aim : aim + best * ASSIST_PULL;
+};
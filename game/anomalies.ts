@@ -0,0 +1,44 @@
+import { AnomalyEffect, AnomalyEvent, AnomalyOption, AnomalyOutcome, AnomalyStage, PlayerStats } from '../types';
+import { MODIFIERS, getEffectModifier } from './effects';
+import { WEAPONS, applyWeaponEffect } from './weapons';
+
+// Resolving anomaly choices. Instant effects change the player's stats; timed ones go to the world
+// (see applyTimedEffect), since they have to wear off on its clock.
+
+// The opening stage has no id
+export const getAnomalyStage = (anomaly: AnomalyEvent, stageId: string | null): Omit<AnomalyStage, 'id'> =>
+  anomaly.stages?.find(stage => stage.id === stageId) ?? { description: anomaly.description, options: anomaly.options };
+
+// `roll` is a number in [0, 1)
+export const rollOutcome = (option: AnomalyOption, roll: number): AnomalyOutcome => {
+  for (const outcome of option.outcomes) {
+    roll -= outcome.chance;
+    if (roll < 0) return outcome;
+  }
+  return option.outcomes[option.outcomes.length - 1];
+};
+
+export const applyInstantEffects = (stats: PlayerStats, effects: AnomalyEffect[]): PlayerStats =>
+  effects.reduce((prev, effect) => {
+    switch (effect.effect) {
+      case 'HEAL': return { ...prev, health: Math.min(prev.maxHealth, prev.health + effect.value) };
+      case 'DAMAGE': return { ...prev, health: Math.max(0, prev.health - effect.value) };
+      case 'SCRAP': return { ...prev, scrap: prev.scrap + effect.value };
+      case 'WEAPON': return { ...prev, weapon: applyWeaponEffect(prev.weapon, effect) };
+      default: return prev;
+    }
+  }, stats);
+
+// Short label for buttons and the outcome screen, e.g. "+30 HULL" or "SHIELD 8s"
+export const describeEffect = (anomalyEffect: AnomalyEffect): string => {
+  const { effect, value, weaponType } = anomalyEffect;
+  const modifier = getEffectModifier(anomalyEffect);
+  if (modifier) return `${MODIFIERS[modifier].name.toUpperCase()} ${value > 0 ? `${value}s` : 'ALL RUN'}`;
+  switch (effect) {
+    case 'HEAL': return `+${value} HULL`;
+    case 'DAMAGE': return `-${value} HULL`;
+    case 'SCRAP': return `+${value} SCRAP`;
+    case 'WEAPON': return weaponType ? `${WEAPONS[weaponType].name.toUpperCase()} T${value}` : `WEAPON UPGRADE T${value}`;
+    default: return 'NOTHING';
+  }
+};
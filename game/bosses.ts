@@ -0,0 +1,312 @@
+import { Arena, BossId, BossStatus, EnemyArchetype, Entity, EntityType, Vector2 } from '../types';
+import { DifficultyPoint } from './waves';
+import { createEnemy } from './enemies';
+import { Random } from './random';
+
+export type BossPattern = 'RADIAL_BURST' | 'SPIRAL' | 'AIMED_SPREAD' | 'SWEEP_LASER' | 'SUMMON';
+
+export interface BossPhase {
+  healthThreshold: number; // Phase starts once health drops to this fraction
+  speed: number;
+  patterns: BossPattern[]; // Cycled in order
+  cooldown: number; // ticks between patterns
+}
+
+export interface BossDefinition {
+  name: string;
+  color: string;
+  radius: number;
+  health: number; // At level 1, scaled by the difficulty curve
+  contactDamage: number;
+  bulletDamage: number;
+  score: number;
+  scrapDrops: number;
+  scrapValue: number;
+  minion: EnemyArchetype;
+  phases: BossPhase[];
+}
+
+export const BOSSES: Record<BossId, BossDefinition> = {
+  DREADNOUGHT: {
+    name: 'Scrap Dreadnought',
+    color: '#dc2626', // Red 600
+    radius: 55,
+    health: 900,
+    contactDamage: 30,
+    bulletDamage: 8,
+    score: 1000,
+    scrapDrops: 15,
+    scrapValue: 10,
+    minion: EnemyArchetype.GRUNT,
+    phases: [
+      { healthThreshold: 1, speed: 1, patterns: ['RADIAL_BURST', 'AIMED_SPREAD'], cooldown: 90 },
+      { healthThreshold: 0.6, speed: 1.3, patterns: ['RADIAL_BURST', 'SUMMON', 'AIMED_SPREAD'], cooldown: 75 },
+      { healthThreshold: 0.25, speed: 1.6, patterns: ['SPIRAL', 'RADIAL_BURST', 'SUMMON'], cooldown: 55 }
+    ]
+  },
+  LANCER: {
+    name: 'Void Lancer',
+    color: '#0ea5e9', // Sky 500
+    radius: 45,
+    health: 750,
+    contactDamage: 25,
+    bulletDamage: 7,
+    score: 1200,
+    scrapDrops: 18,
+    scrapValue: 10,
+    minion: EnemyArchetype.SNIPER,
+    phases: [
+      { healthThreshold: 1, speed: 1.2, patterns: ['SWEEP_LASER', 'AIMED_SPREAD'], cooldown: 100 },
+      { healthThreshold: 0.5, speed: 1.5, patterns: ['SWEEP_LASER', 'RADIAL_BURST', 'SUMMON'], cooldown: 80 },
+      { healthThreshold: 0.2, speed: 1.8, patterns: ['SWEEP_LASER', 'SPIRAL'], cooldown: 60 }
+    ]
+  },
+  HIVE: {
+    name: 'Hive Mother',
+    color: '#eab308', // Yellow 500
+    radius: 60,
+    health: 1100,
+    contactDamage: 30,
+    bulletDamage: 6,
+    score: 1500,
+    scrapDrops: 20,
+    scrapValue: 12,
+    minion: EnemyArchetype.DRONE,
+    phases: [
+      { healthThreshold: 1, speed: 0.8, patterns: ['SUMMON', 'RADIAL_BURST'], cooldown: 110 },
+      { healthThreshold: 0.5, speed: 1, patterns: ['SUMMON', 'SPIRAL', 'AIMED_SPREAD'], cooldown: 85 },
+      { healthThreshold: 0.2, speed: 1.2, patterns: ['SWEEP_LASER', 'SUMMON', 'RADIAL_BURST'], cooldown: 65 }
+    ]
+  }
+};
+
+// Bosses show up in the order listed, then repeat
+export const BOSS_ROTATION: BossId[] = ['DREADNOUGHT', 'LANCER', 'HIVE'];
+
+const BEAM_WARMUP = 45; // Telegraph ticks before the beam does damage
+const BEAM_DURATION = 150;
+const BEAM_DAMAGE = 0.5; // Per tick while the player is inside
+const BEAM_WIDTH = 14;
+const SPIRAL_SHOTS = 24;
+const BEAM_DRAW_LENGTH = 4000; // Past the edge of any screen, the beam itself has no end
+
+export const createBoss = (id: BossId, difficulty: DifficultyPoint, arena: Arena): Entity => {
+  const def = BOSSES[id];
+  const health = Math.round(def.health * difficulty.healthMultiplier);
+  return {
+    id: 'boss',
+    type: EntityType.BOSS,
+    bossId: id,
+    pos: { x: arena.width / 2, y: -def.radius * 2 },
+    vel: { x: 0, y: 0 },
+    radius: def.radius,
+    color: def.color,
+    health,
+    maxHealth: health,
+    rotation: Math.PI / 2,
+    value: def.score,
+    phase: 0,
+    attackIndex: 0,
+    attackTimer: 120, // Entrance before the first attack
+    spiralShots: 0
+  };
+};
+
+export const getBossStatus = (boss: Entity): BossStatus => {
+  const def = BOSSES[boss.bossId!];
+  return {
+    name: def.name,
+    health: Math.max(0, boss.health),
+    maxHealth: boss.maxHealth,
+    phase: (boss.phase ?? 0) + 1,
+    phaseCount: def.phases.length
+  };
+};
+
+const createBossBullet = (boss: Entity, angle: number, speed: number, damage: number): Entity => ({
+  id: 'bullet-boss',
+  type: EntityType.BULLET,
+  pos: { x: boss.pos.x + Math.cos(angle) * boss.radius, y: boss.pos.y + Math.sin(angle) * boss.radius },
+  vel: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+  radius: 6,
+  color: boss.color,
+  health: 1,
+  maxHealth: 1,
+  rotation: angle,
+  life: 200,
+  owner: 'ENEMY',
+  damage
+});
+
+export interface BossUpdate {
+  spawned: Entity[]; // Bullets and minions
+  phaseChanged: boolean;
+}
+
+// Moves the boss, advances its phase and runs its attack script for one tick
+export const updateBoss = (boss: Entity, player: Entity, difficulty: DifficultyPoint, arena: Arena, now: number, random: Random): BossUpdate => {
+  const def = BOSSES[boss.bossId!];
+  const spawned: Entity[] = [];
+  let phaseChanged = false;
+
+  // Phase transitions
+  const fraction = boss.health / boss.maxHealth;
+  let phase = boss.phase ?? 0;
+  while (phase + 1 < def.phases.length && fraction <= def.phases[phase + 1].healthThreshold) {
+    phase++;
+    phaseChanged = true;
+  }
+  if (phaseChanged) {
+    boss.phase = phase;
+    boss.attackIndex = 0;
+    boss.attackTimer = 60;
+    boss.beam = undefined;
+  }
+  const current = def.phases[phase];
+
+  // Hover across the upper part of the arena
+  const targetX = arena.width / 2 + Math.sin(now * 0.0005 * current.speed) * arena.width * 0.3;
+  const targetY = arena.height * 0.25;
+  boss.vel.x = (targetX - boss.pos.x) * 0.02 * current.speed;
+  boss.vel.y = (targetY - boss.pos.y) * 0.02 * current.speed;
+  const toPlayer = Math.atan2(player.pos.y - boss.pos.y, player.pos.x - boss.pos.x);
+  if (!boss.beam) boss.rotation = toPlayer;
+
+  // An active beam sweeps until it runs out, nothing else fires meanwhile
+  if (boss.beam) {
+    const beam = boss.beam;
+    if (beam.warmup > 0) beam.warmup--;
+    else {
+      beam.angle += beam.sweep;
+      beam.remaining--;
+    }
+    boss.rotation = beam.angle;
+    if (beam.remaining <= 0) boss.beam = undefined;
+    return { spawned, phaseChanged };
+  }
+
+  // Spiral fires a pair of shots every other tick until the volley is done
+  if ((boss.spiralShots ?? 0) > 0) {
+    if (boss.spiralShots! % 2 === 0) {
+      const angle = (boss.spiralShots! / SPIRAL_SHOTS) * Math.PI * 4;
+      spawned.push(createBossBullet(boss, angle, 4, def.bulletDamage));
+      spawned.push(createBossBullet(boss, angle + Math.PI, 4, def.bulletDamage));
+    }
+    boss.spiralShots!--;
+    return { spawned, phaseChanged };
+  }
+
+  boss.attackTimer = (boss.attackTimer ?? 0) - 1;
+  if (boss.attackTimer > 0) return { spawned, phaseChanged };
+
+  const pattern = current.patterns[(boss.attackIndex ?? 0) % current.patterns.length];
+  boss.attackIndex = (boss.attackIndex ?? 0) + 1;
+  boss.attackTimer = current.cooldown;
+
+  switch (pattern) {
+    case 'RADIAL_BURST': {
+      const count = 16 + phase * 4;
+      const offset = random() * Math.PI;
+      for (let i = 0; i < count; i++) {
+        spawned.push(createBossBullet(boss, offset + (i / count) * Math.PI * 2, 3.5 + phase * 0.5, def.bulletDamage));
+      }
+      break;
+    }
+    case 'SPIRAL':
+      boss.spiralShots = SPIRAL_SHOTS * 2;
+      break;
+    case 'AIMED_SPREAD':
+      for (let i = -2; i <= 2; i++) {
+        spawned.push(createBossBullet(boss, toPlayer + i * 0.15, 6, def.bulletDamage));
+      }
+      break;
+    case 'SWEEP_LASER': {
+      // Starts off to one side of the player and sweeps across them
+      const side = random() > 0.5 ? 1 : -1;
+      boss.beam = {
+        angle: toPlayer - side * 0.9,
+        sweep: side * (1.8 / BEAM_DURATION),
+        warmup: BEAM_WARMUP,
+        remaining: BEAM_DURATION
+      };
+      break;
+    }
+    case 'SUMMON': {
+      const count = def.minion === EnemyArchetype.DRONE ? 6 : 2 + phase;
+      for (let i = 0; i < count; i++) {
+        const angle = (i / count) * Math.PI * 2;
+        const pos: Vector2 = { x: boss.pos.x + Math.cos(angle) * (boss.radius + 20), y: boss.pos.y + Math.sin(angle) * (boss.radius + 20) };
+        spawned.push(createEnemy(def.minion, pos, difficulty, now, random));
+      }
+      break;
+    }
+  }
+
+  return { spawned, phaseChanged };
+};
+
+// Damage the sweeping beam deals to the player this tick
+export const getBeamDamage = (boss: Entity, player: Entity): number => {
+  const beam = boss.beam;
+  if (!beam || beam.warmup > 0) return 0;
+  const dx = player.pos.x - boss.pos.x;
+  const dy = player.pos.y - boss.pos.y;
+  // Distance from the player to the beam ray
+  const along = dx * Math.cos(beam.angle) + dy * Math.sin(beam.angle);
+  if (along < 0) return 0;
+  const across = Math.abs(-dx * Math.sin(beam.angle) + dy * Math.cos(beam.angle));
+  return across < BEAM_WIDTH / 2 + player.radius ? BEAM_DAMAGE : 0;
+};
+
+// Draws a boss and its beam at the origin (the caller has already translated to its position)
+export const drawBoss = (ctx: CanvasRenderingContext2D, boss: Entity) => {
+  const r = boss.radius;
+
+  if (boss.beam) {
+    const length = BEAM_DRAW_LENGTH;
+    ctx.save();
+    ctx.rotate(boss.beam.angle);
+    if (boss.beam.warmup > 0) {
+      // Telegraph line
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([10, 10]);
+      ctx.beginPath();
+      ctx.moveTo(r, 0);
+      ctx.lineTo(length, 0);
+      ctx.stroke();
+    } else {
+      ctx.shadowBlur = 25;
+      ctx.shadowColor = boss.color;
+      ctx.fillStyle = boss.color;
+      ctx.fillRect(r * 0.5, -BEAM_WIDTH / 2, length, BEAM_WIDTH);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(r * 0.5, -BEAM_WIDTH / 6, length, BEAM_WIDTH / 3);
+    }
+    ctx.restore();
+  }
+
+  ctx.save();
+  ctx.rotate(boss.rotation);
+  ctx.shadowBlur = 30;
+  ctx.shadowColor = boss.color;
+  ctx.fillStyle = boss.color;
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    // Spiked hull
+    const a = (i / 10) * Math.PI * 2;
+    const radius = i % 2 === 0 ? r : r * 0.75;
+    if (i === 0) ctx.moveTo(Math.cos(a) * radius, Math.sin(a) * radius);
+    else ctx.lineTo(Math.cos(a) * radius, Math.sin(a) * radius);
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  // Core glows brighter as the boss gets weaker
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = `rgba(255, 255, 255, ${0.4 + (1 - boss.health / boss.maxHealth) * 0.6})`;
+  ctx.beginPath();
+  ctx.arc(0, 0, r * 0.3, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
@@ -0,0 +1,52 @@
+import { Entity, Vector2 } from '../types';
+
+// Fixed-timestep game clock. The simulation always advances in TICK_MS steps, however fast the
+// display refreshes, and rendering interpolates between the last two ticks.
+
+export const TICKS_PER_SECOND = 60;
+export const TICK_MS = 1000 / TICKS_PER_SECOND;
+
+// Longest frame we try to catch up on (e.g. after a hitch), anything beyond is dropped
+const MAX_FRAME_MS = 250;
+
+export interface GameClock {
+  time: number; // ms of simulated time, only moves while the game is running
+  tick: number;
+  accumulator: number; // Real time not yet simulated
+}
+
+export const createGameClock = (): GameClock => ({
+  time: 0,
+  tick: 0,
+  accumulator: 0
+});
+
+// Adds a frame's worth of real time and returns how many ticks to simulate
+export const accumulateFrame = (clock: GameClock, frameMs: number): number => {
+  clock.accumulator += Math.min(Math.max(0, frameMs), MAX_FRAME_MS);
+  const ticks = Math.floor(clock.accumulator / TICK_MS);
+  clock.accumulator -= ticks * TICK_MS;
+  return ticks;
+};
+
+export const advanceTick = (clock: GameClock) => {
+  clock.tick++;
+  clock.time = clock.tick * TICK_MS;
+};
+
+// How far between the previous and current tick the frame is being drawn (0-1)
+export const getInterpolationAlpha = (clock: GameClock) => clock.accumulator / TICK_MS;
+
+// Drops leftover real time, e.g. while paused, so resuming doesn't fast-forward
+export const resetAccumulator = (clock: GameClock) => {
+  clock.accumulator = 0;
+};
+
+// Where to draw an entity between its previous and current tick
+export const interpolatePosition = (ent: Entity, alpha: number): Vector2 => {
+  if (!ent.prevPos) return ent.pos;
+  return {
+    x: ent.prevPos.x + (ent.pos.x - ent.prevPos.x) * alpha,
+    y: ent.prevPos.y + (ent.pos.y - ent.prevPos.y) * alpha
+  };
+};
@@ -0,0 +1,130 @@
+import { Entity, EntityType, Vector2 } from '../types';
+
+// Collision subsystem: a uniform grid broadphase, circle-circle narrowphase and layer masks.
+// Nothing is removed while collisions are being resolved; handlers flag `dead` and the
+// caller sweeps once at the end of the tick with removeDead().
+
+export enum CollisionLayer {
+  NONE = 0,
+  PLAYER = 1 << 0,
+  ENEMY = 1 << 1, // Enemies and bosses
+  PLAYER_BULLET = 1 << 2,
+  ENEMY_BULLET = 1 << 3,
+  PICKUP = 1 << 4 // Scrap, health, anomaly cores and docking beacons
+}
+
+export const getCollisionLayer = (ent: Entity): CollisionLayer => {
+  switch (ent.type) {
+    case EntityType.PLAYER:
+      return CollisionLayer.PLAYER;
+    case EntityType.ENEMY:
+    case EntityType.BOSS:
+      return CollisionLayer.ENEMY;
+    case EntityType.BULLET:
+      return ent.owner === 'ENEMY' ? CollisionLayer.ENEMY_BULLET : CollisionLayer.PLAYER_BULLET;
+    case EntityType.SCRAP:
+    case EntityType.HEALTH_PICKUP:
+    case EntityType.ANOMALY_CORE:
+    case EntityType.DOCKING_BEACON:
+      return CollisionLayer.PICKUP;
+    default:
+      return CollisionLayer.NONE; // Particles never collide
+  }
+};
+
+export const circlesOverlap = (a: Entity, b: Entity) => {
+  const dx = a.pos.x - b.pos.x;
+  const dy = a.pos.y - b.pos.y;
+  const r = a.radius + b.radius;
+  return dx * dx + dy * dy < r * r;
+};
+
+export interface SpatialGrid {
+  cellSize: number;
+  cells: Map<number, Entity[]>;
+  maxRadius: number; // Largest radius inserted, queries widen by this much
+}
+
+export const DEFAULT_CELL_SIZE = 64;
+
+// Cell coordinates packed into one number so the Map doesn't need string keys
+const cellKey = (cx: number, cy: number) => cx * 65536 + cy;
+
+export const createSpatialGrid = (cellSize = DEFAULT_CELL_SIZE): SpatialGrid => ({
+  cellSize,
+  cells: new Map(),
+  maxRadius: 0
+});
+
+// Re-buckets every live, collidable entity by the cell its centre is in. Cell arrays are reused between ticks.
+export const rebuildGrid = (grid: SpatialGrid, entities: Entity[]) => {
+  for (const bucket of grid.cells.values()) bucket.length = 0;
+  grid.maxRadius = 0;
+
+  for (const ent of entities) {
+    if (ent.dead || getCollisionLayer(ent) === CollisionLayer.NONE) continue;
+    const key = cellKey(Math.floor(ent.pos.x / grid.cellSize), Math.floor(ent.pos.y / grid.cellSize));
+    let bucket = grid.cells.get(key);
+    if (!bucket) {
+      bucket = [];
+      grid.cells.set(key, bucket);
+    }
+    bucket.push(ent);
+    if (ent.radius > grid.maxRadius) grid.maxRadius = ent.radius;
+  }
+};
+
+// Live entities on the given layers whose circles overlap the query circle
+export const queryGrid = (grid: SpatialGrid, center: Vector2, radius: number, mask: number, out: Entity[] = []): Entity[] => {
+  const range = radius + grid.maxRadius;
+  const minX = Math.floor((center.x - range) / grid.cellSize);
+  const maxX = Math.floor((center.x + range) / grid.cellSize);
+  const minY = Math.floor((center.y - range) / grid.cellSize);
+  const maxY = Math.floor((center.y + range) / grid.cellSize);
+
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      const bucket = grid.cells.get(cellKey(cx, cy));
+      if (!bucket) continue;
+      for (const ent of bucket) {
+        if (ent.dead || (getCollisionLayer(ent) & mask) === 0) continue;
+        const dx = ent.pos.x - center.x;
+        const dy = ent.pos.y - center.y;
+        const r = ent.radius + radius;
+        if (dx * dx + dy * dy < r * r) out.push(ent);
+      }
+    }
+  }
+  return out;
+};
+
+// Calls onHit for every overlapping (source, target) pair. Returning true from onHit means the
+// source was used up (e.g. a bullet that stopped) and it stops checking further targets.
+export const forEachCollision = (
+  grid: SpatialGrid,
+  sources: Entity[],
+  sourceMask: number,
+  targetMask: number,
+  onHit: (source: Entity, target: Entity) => boolean | void
+) => {
+  const hits: Entity[] = [];
+  for (const source of sources) {
+    if (source.dead || (getCollisionLayer(source) & sourceMask) === 0) continue;
+    hits.length = 0;
+    queryGrid(grid, source.pos, source.radius, targetMask, hits);
+    for (const target of hits) {
+      if (target === source || target.dead) continue;
+      if (onHit(source, target) === true) break;
+    }
+  }
+};
+
+// Compacts the array in place, dropping everything flagged dead
+export const removeDead = (entities: Entity[]) => {
+  let write = 0;
+  for (let read = 0; read < entities.length; read++) {
+    const ent = entities[read];
+    if (!ent.dead) entities[write++] = ent;
+  }
+  entities.length = write;
+};
@@ -0,0 +1,63 @@
+import { DashStatus, Entity, ShipUpgrades } from '../types';
+import { TICK_MS } from './clock';
+import { getShipModifiers } from './upgrades';
+
+// The dash: a burst of speed with a moment of invulnerability. Dashes use up charges from an
+// energy meter that refills on its own; upgrades add charges and make dashing into enemies hurt.
+// Dashes start when the input goes down, holding it doesn't chain them.
+
+export const DASH_SPEED = 16; // Velocity the ship is launched at, friction bleeds it off
+export const DASH_MS = 200; // How long a dash counts as one, for trails and ramming
+export const DASH_IFRAME_MS = 300;
+export const DASH_COOLDOWN_MS = 350; // Minimum time between dashes, even with charges left
+export const DASH_RECHARGE_MS = 2500; // Time to refill one charge
+
+export interface DashState {
+  energy: number; // In charges, fractional while refilling
+  activeUntil: number; // World clock time the current dash ends
+  invulnerableUntil: number;
+  cooldownUntil: number;
+  held: boolean; // Dash input on the last tick
+  hitIds: string[]; // Rammed during the current dash, each only takes damage once
+}
+
+export const createDashState = (upgrades: ShipUpgrades): DashState => ({
+  energy: getShipModifiers(upgrades).dashCharges,
+  activeUntil: 0,
+  invulnerableUntil: 0,
+  cooldownUntil: 0,
+  held: false,
+  hitIds: []
+});
+
+export const isDashing = (dash: DashState, now: number) => now < dash.activeUntil;
+
+export const isDashInvulnerable = (dash: DashState, now: number) => now < dash.invulnerableUntil;
+
+// Refills the meter and launches a dash if the input was just pressed. Dashes go the way the
+// ship is steering, or the way it faces when there's no movement input. Returns whether it dashed.
+export const updateDash = (dash: DashState, player: Entity, upgrades: ShipUpgrades, pressed: boolean, move: { x: number; y: number }, now: number): boolean => {
+  const justPressed = pressed && !dash.held;
+  dash.held = pressed;
+  const charges = getShipModifiers(upgrades).dashCharges;
+  dash.energy = Math.min(charges, dash.energy + TICK_MS / DASH_RECHARGE_MS);
+
+  if (!justPressed || dash.energy < 1 || now < dash.cooldownUntil) return false;
+
+  const len = Math.hypot(move.x, move.y);
+  const angle = len > 0 ? Math.atan2(move.y, move.x) : player.rotation;
+  player.vel.x = Math.cos(angle) * DASH_SPEED;
+  player.vel.y = Math.sin(angle) * DASH_SPEED;
+
+  dash.energy -= 1;
+  dash.activeUntil = now + DASH_MS;
+  dash.invulnerableUntil = now + DASH_IFRAME_MS;
+  dash.cooldownUntil = now + DASH_COOLDOWN_MS;
+  dash.hitIds = [];
+  return true;
+};
+
+export const getDashStatus = (dash: DashState, upgrades: ShipUpgrades): DashStatus => ({
+  energy: Math.round(dash.energy * 100) / 100,
+  charges: getShipModifiers(upgrades).dashCharges
+});
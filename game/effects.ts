@@ -0,0 +1,171 @@
+import { AnomalyEffect, AnomalyEffectType, Entity, EntityType, ModifierId, ModifierStatus, TimedEffectType } from '../types';
+
+// Buffs, debuffs and run-wide mutators granted by anomalies. They run on the world clock, so they
+// pause with the game and play back exactly in replays. Each modifier only changes a few of the
+// rules below; the world asks for the combined rules once per tick.
+
+export interface ModifierRules {
+  invulnerable: boolean;
+  hostileSpeed: number; // Movement multiplier for enemies, bosses and their bullets
+  damageDealt: number;
+  damageTaken: number;
+  scrapMultiplier: number;
+  noHealthPickups: boolean;
+  ricochet: boolean; // Player bullets bounce off the arena edges
+  scrapGravity: boolean; // All scrap drifts towards the player, whatever the magnet range
+}
+
+export type ModifierKind = 'BUFF' | 'DEBUFF' | 'MUTATOR'; // Mutators trade a perk for a drawback
+
+export interface ModifierDef {
+  name: string;
+  description: string;
+  kind: ModifierKind;
+  color: string;
+  maxSeconds: number; // Longest an anomaly may grant it for; mutators may also last the whole run
+  rules: Partial<ModifierRules>; // Numbers multiply with other modifiers, flags switch on
+}
+
+export const MODIFIERS: Record<ModifierId, ModifierDef> = {
+  SHIELD: {
+    name: 'Shield',
+    description: 'The hull takes no damage',
+    kind: 'BUFF',
+    color: '#38bdf8',
+    maxSeconds: 12,
+    rules: { invulnerable: true }
+  },
+  SLOW_MO: {
+    name: 'Slow-mo',
+    description: 'Enemies and their shots crawl',
+    kind: 'BUFF',
+    color: '#a855f7',
+    maxSeconds: 15,
+    rules: { hostileSpeed: 0.4 }
+  },
+  ENEMY_SLOW: {
+    name: 'Sluggish Foes',
+    description: 'Enemies move 30% slower',
+    kind: 'BUFF',
+    color: '#818cf8',
+    maxSeconds: 30,
+    rules: { hostileSpeed: 0.7 }
+  },
+  ENEMY_HASTE: {
+    name: 'Frenzy',
+    description: 'Enemies move 30% faster',
+    kind: 'DEBUFF',
+    color: '#f97316',
+    maxSeconds: 30,
+    rules: { hostileSpeed: 1.3 }
+  },
+  OVERCHARGE: {
+    name: 'Overcharge',
+    description: 'Your shots deal 50% more damage',
+    kind: 'BUFF',
+    color: '#facc15',
+    maxSeconds: 30,
+    rules: { damageDealt: 1.5 }
+  },
+  BRITTLE_HULL: {
+    name: 'Brittle Hull',
+    description: 'You take 50% more damage',
+    kind: 'DEBUFF',
+    color: '#ef4444',
+    maxSeconds: 30,
+    rules: { damageTaken: 1.5 }
+  },
+  RICOCHET: {
+    name: 'Ricochet',
+    description: 'Your bullets bounce off the edges of the arena',
+    kind: 'BUFF',
+    color: '#22d3ee',
+    maxSeconds: 30,
+    rules: { ricochet: true }
+  },
+  GRAVITY_WELL: {
+    name: 'Gravity Well',
+    description: 'Scrap anywhere in the arena is pulled towards you',
+    kind: 'BUFF',
+    color: '#a3e635',
+    maxSeconds: 30,
+    rules: { scrapGravity: true }
+  },
+  SCRAP_RUSH: {
+    name: 'Scrap Rush',
+    description: 'Double scrap, but no more health pickups',
+    kind: 'MUTATOR',
+    color: '#eab308',
+    maxSeconds: 60,
+    rules: { scrapMultiplier: 2, noHealthPickups: true }
+  }
+};
+
+export const MODIFIER_IDS = Object.keys(MODIFIERS) as ModifierId[];
+
+const DEFAULT_RULES: ModifierRules = {
+  invulnerable: false,
+  hostileSpeed: 1,
+  damageDealt: 1,
+  damageTaken: 1,
+  scrapMultiplier: 1,
+  noHealthPickups: false,
+  ricochet: false,
+  scrapGravity: false
+};
+
+export interface TimedEffect {
+  type: ModifierId;
+  until: number | null; // World clock time (ms) it wears off at, null for the rest of the run
+}
+
+export const isTimedEffect = (effect: AnomalyEffectType): effect is TimedEffectType => effect === 'SHIELD' || effect === 'SLOW_MO';
+
+// The modifier an anomaly effect grants, if it grants one
+export const getEffectModifier = (effect: AnomalyEffect): ModifierId | null => {
+  if (isTimedEffect(effect.effect)) return effect.effect;
+  if (effect.effect === 'MODIFIER' && effect.modifier && MODIFIERS[effect.modifier]) return effect.modifier;
+  return null;
+};
+
+const isActive = (effect: TimedEffect, now: number) => effect.until === null || effect.until > now;
+
+// Getting the same modifier again extends it rather than stacking; null duration is the rest of the run
+export const addTimedEffect = (effects: TimedEffect[], type: ModifierId, duration: number | null, now: number): TimedEffect[] => {
+  const current = effects.find(e => e.type === type && isActive(e, now));
+  const until = duration === null || current?.until === null ? null : Math.max(now, current?.until ?? now) + duration;
+  return [...effects.filter(e => e.type !== type), { type, until }];
+};
+
+export const isEffectActive = (effects: TimedEffect[], type: ModifierId, now: number) =>
+  effects.some(e => e.type === type && isActive(e, now));
+
+// Milliseconds left, 0 once it has worn off and Infinity if it never does
+export const getEffectTimeLeft = (effects: TimedEffect[], type: ModifierId, now: number) => {
+  const effect = effects.find(e => e.type === type);
+  if (!effect) return 0;
+  return effect.until === null ? Infinity : Math.max(0, effect.until - now);
+};
+
+export const getModifierRules = (effects: TimedEffect[], now: number): ModifierRules => {
+  const rules = { ...DEFAULT_RULES };
+  for (const effect of effects) {
+    if (!isActive(effect, now)) continue;
+    for (const [key, value] of Object.entries(MODIFIERS[effect.type].rules) as [keyof ModifierRules, number | boolean][]) {
+      if (typeof value === 'number') (rules[key] as number) *= value;
+      else if (value) (rules[key] as boolean) = true;
+    }
+  }
+  return rules;
+};
+
+// For the HUD, soonest to expire first
+export const getModifierStatus = (effects: TimedEffect[], now: number): ModifierStatus[] =>
+  effects
+    .filter(effect => isActive(effect, now))
+    .map(effect => ({ id: effect.type, timeLeft: effect.until === null ? null : Math.ceil((effect.until - now) / 1000) }))
+    .sort((a, b) => (a.timeLeft ?? Infinity) - (b.timeLeft ?? Infinity));
+
+// What hostileSpeed applies to: enemies, bosses and their bullets, never the player
+export const isHostile = (ent: Entity) =>
+  ent.type === EntityType.ENEMY || ent.type === EntityType.BOSS || (ent.type === EntityType.BULLET && ent.owner === 'ENEMY');
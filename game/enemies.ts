@@ -0,0 +1,387 @@
+import { Entity, EntityType, EnemyArchetype, Vector2 } from '../types';
+import { BULLET_SPEED, ENEMY_SPEED } from '../constants';
+import { DifficultyPoint } from './waves';
+import { CollisionLayer, SpatialGrid, queryGrid } from './collision';
+import { Random } from './random';
+
+export type EnemyShape = 'TRIANGLE' | 'DART' | 'DIAMOND' | 'HEXAGON' | 'OCTAGON' | 'CHEVRON';
+
+export interface EnemyDefinition {
+  name: string;
+  color: string;
+  shape: EnemyShape;
+  radius: number;
+  health: number;
+  speed: number;
+  fireInterval: number | null; // ms between shots, null never shoots
+  bulletSpeed: number;
+  bulletDamage: number;
+  contactDamage: number;
+  score: number;
+  scrapDrops: number; // Scrap pieces dropped on death
+  scrapValue: number; // Value of each piece
+  spawnGroup: number; // How many spawn together
+}
+
+export const ENEMIES: Record<EnemyArchetype, EnemyDefinition> = {
+  [EnemyArchetype.GRUNT]: {
+    name: 'Grunt',
+    color: '#ef4444', // Red 500
+    shape: 'TRIANGLE',
+    radius: 15,
+    health: 20,
+    speed: ENEMY_SPEED,
+    fireInterval: 1000,
+    bulletSpeed: BULLET_SPEED * 0.8,
+    bulletDamage: 5,
+    contactDamage: 10,
+    score: 10,
+    scrapDrops: 1,
+    scrapValue: 5,
+    spawnGroup: 1
+  },
+  [EnemyArchetype.RUSHER]: {
+    name: 'Kamikaze Rusher',
+    color: '#f97316', // Orange 500
+    shape: 'DART',
+    radius: 12,
+    health: 12,
+    speed: ENEMY_SPEED * 2,
+    fireInterval: null,
+    bulletSpeed: 0,
+    bulletDamage: 0,
+    contactDamage: 25,
+    score: 15,
+    scrapDrops: 1,
+    scrapValue: 4,
+    spawnGroup: 2
+  },
+  [EnemyArchetype.SNIPER]: {
+    name: 'Orbiting Sniper',
+    color: '#e879f9', // Fuchsia 400
+    shape: 'DIAMOND',
+    radius: 14,
+    health: 25,
+    speed: ENEMY_SPEED * 1.2,
+    fireInterval: 2200,
+    bulletSpeed: BULLET_SPEED * 1.3,
+    bulletDamage: 12,
+    contactDamage: 10,
+    score: 25,
+    scrapDrops: 2,
+    scrapValue: 5,
+    spawnGroup: 1
+  },
+  [EnemyArchetype.SHIELD]: {
+    name: 'Shield Bearer',
+    color: '#64748b', // Slate 500
+    shape: 'HEXAGON',
+    radius: 22,
+    health: 90,
+    speed: ENEMY_SPEED * 0.6,
+    fireInterval: 1800,
+    bulletSpeed: BULLET_SPEED * 0.6,
+    bulletDamage: 6,
+    contactDamage: 20,
+    score: 40,
+    scrapDrops: 4,
+    scrapValue: 5,
+    spawnGroup: 1
+  },
+  [EnemyArchetype.SPLITTER]: {
+    name: 'Splitter',
+    color: '#84cc16', // Lime 500
+    shape: 'OCTAGON',
+    radius: 20,
+    health: 40,
+    speed: ENEMY_SPEED * 0.8,
+    fireInterval: 1500,
+    bulletSpeed: BULLET_SPEED * 0.7,
+    bulletDamage: 5,
+    contactDamage: 12,
+    score: 20,
+    scrapDrops: 1,
+    scrapValue: 5,
+    spawnGroup: 1
+  },
+  [EnemyArchetype.DRONE]: {
+    name: 'Swarm Drone',
+    color: '#facc15', // Yellow 400
+    shape: 'CHEVRON',
+    radius: 9,
+    health: 8,
+    speed: ENEMY_SPEED * 1.4,
+    fireInterval: null,
+    bulletSpeed: 0,
+    bulletDamage: 0,
+    contactDamage: 6,
+    score: 5,
+    scrapDrops: 1,
+    scrapValue: 2,
+    spawnGroup: 6
+  }
+};
+
+const SNIPER_RANGE = 320;
+const SHIELD_ARC = Math.PI / 3; // Half-angle of the frontal shield
+const SPLITTER_GENERATIONS = 2;
+const RUSHER_TURN_RATE = 0.05;
+
+const angleDiff = (a: number, b: number) => {
+  let diff = a - b;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+};
+
+// Picks an archetype using the weights from the difficulty curve
+export const pickArchetype = (difficulty: DifficultyPoint, random: Random): EnemyArchetype => {
+  const entries = Object.entries(difficulty.archetypeWeights) as [EnemyArchetype, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * total;
+  for (const [archetype, weight] of entries) {
+    roll -= weight;
+    if (roll <= 0) return archetype;
+  }
+  return EnemyArchetype.GRUNT;
+};
+
+export const createEnemy = (archetype: EnemyArchetype, pos: Vector2, difficulty: DifficultyPoint, now: number, random: Random): Entity => {
+  const def = ENEMIES[archetype];
+  const health = Math.round(def.health * difficulty.healthMultiplier);
+  const fireInterval = def.fireInterval === null ? undefined : def.fireInterval * difficulty.fireIntervalMultiplier;
+  return {
+    id: 'enemy',
+    type: EntityType.ENEMY,
+    archetype,
+    pos: { ...pos },
+    vel: { x: 0, y: 0 },
+    radius: def.radius,
+    color: def.color,
+    health,
+    maxHealth: health,
+    rotation: 0,
+    value: def.score,
+    speed: def.speed * difficulty.speedMultiplier,
+    fireInterval,
+    lastShot: fireInterval === undefined ? undefined : now + random() * fireInterval, // Stagger initial shots
+    orbitDir: random() > 0.5 ? 1 : -1
+  };
+};
+
+// Smaller copies a splitter breaks into when destroyed
+export const splitEnemy = (ent: Entity, now: number, random: Random): Entity[] => {
+  const generation = ent.generation ?? 0;
+  if (ent.archetype !== EnemyArchetype.SPLITTER || generation >= SPLITTER_GENERATIONS) return [];
+  const children: Entity[] = [];
+  for (let i = 0; i < 2; i++) {
+    const angle = ent.rotation + (i === 0 ? Math.PI / 2 : -Math.PI / 2);
+    const health = Math.max(1, Math.round(ent.maxHealth * 0.45));
+    children.push({
+      ...ent,
+      id: 'enemy',
+      dead: false, // The parent is already flagged for removal by the time it splits
+      pos: { x: ent.pos.x + Math.cos(angle) * ent.radius, y: ent.pos.y + Math.sin(angle) * ent.radius },
+      prevPos: undefined,
+      hitIds: undefined,
+      vel: { x: Math.cos(angle) * 3, y: Math.sin(angle) * 3 },
+      radius: ent.radius * 0.7,
+      health,
+      maxHealth: health,
+      value: Math.round((ent.value ?? 10) / 2),
+      speed: (ent.speed ?? ENEMY_SPEED) * 1.25,
+      generation: generation + 1,
+      lastShot: ent.lastShot === undefined ? undefined : now + random() * 500
+    });
+  }
+  return children;
+};
+
+// True when a player bullet hits the front of a shield bearer and should be deflected
+export const isShieldBlocking = (ent: Entity, bullet: Entity) => {
+  if (ent.archetype !== EnemyArchetype.SHIELD) return false;
+  const incoming = Math.atan2(bullet.pos.y - ent.pos.y, bullet.pos.x - ent.pos.x);
+  return Math.abs(angleDiff(incoming, ent.rotation)) < SHIELD_ARC;
+};
+
+const createEnemyBullet = (ent: Entity, angle: number, def: EnemyDefinition): Entity => {
+  const bx = Math.cos(angle);
+  const by = Math.sin(angle);
+  return {
+    id: 'bullet-enemy',
+    type: EntityType.BULLET,
+    pos: { x: ent.pos.x + bx * (ent.radius + 5), y: ent.pos.y + by * (ent.radius + 5) },
+    vel: { x: bx * def.bulletSpeed, y: by * def.bulletSpeed },
+    radius: 4,
+    color: def.color,
+    health: 1,
+    maxHealth: 1,
+    rotation: angle,
+    life: 80,
+    owner: 'ENEMY',
+    damage: def.bulletDamage
+  };
+};
+
+// Steers one enemy for this tick and returns any bullets it fires. `grid` is used to find flockmates.
+export const updateEnemy = (ent: Entity, player: Entity, grid: SpatialGrid, now: number): Entity[] => {
+  const archetype = ent.archetype ?? EnemyArchetype.GRUNT;
+  const def = ENEMIES[archetype];
+  const speed = ent.speed ?? def.speed;
+  const dx = player.pos.x - ent.pos.x;
+  const dy = player.pos.y - ent.pos.y;
+  const dist = Math.hypot(dx, dy);
+  const toPlayer = Math.atan2(dy, dx);
+
+  switch (archetype) {
+    case EnemyArchetype.RUSHER: {
+      // Commits to a heading and only turns slowly, so it can be sidestepped
+      if (ent.vel.x === 0 && ent.vel.y === 0) ent.rotation = toPlayer;
+      ent.rotation += Math.max(-RUSHER_TURN_RATE, Math.min(RUSHER_TURN_RATE, angleDiff(toPlayer, ent.rotation)));
+      const boost = dist < 250 ? 1.5 : 1;
+      ent.vel.x = Math.cos(ent.rotation) * speed * boost;
+      ent.vel.y = Math.sin(ent.rotation) * speed * boost;
+      break;
+    }
+    case EnemyArchetype.SNIPER: {
+      // Holds a ring around the player and circles it
+      const radial = dist > SNIPER_RANGE + 40 ? 1 : dist < SNIPER_RANGE - 40 ? -1 : 0;
+      const orbit = ent.orbitDir ?? 1;
+      const tangent = toPlayer + (Math.PI / 2) * orbit;
+      ent.vel.x = (Math.cos(toPlayer) * radial + Math.cos(tangent) * 0.6) * speed;
+      ent.vel.y = (Math.sin(toPlayer) * radial + Math.sin(tangent) * 0.6) * speed;
+      ent.rotation = toPlayer;
+      break;
+    }
+    case EnemyArchetype.DRONE: {
+      // Boids: separation, alignment and cohesion with nearby drones, plus a pull towards the player
+      let sepX = 0, sepY = 0, alignX = 0, alignY = 0, cohX = 0, cohY = 0, neighbours = 0;
+      for (const other of queryGrid(grid, ent.pos, 90, CollisionLayer.ENEMY)) {
+        if (other === ent || other.archetype !== EnemyArchetype.DRONE) continue;
+        const ox = other.pos.x - ent.pos.x;
+        const oy = other.pos.y - ent.pos.y;
+        const d = Math.hypot(ox, oy);
+        if (d > 90 || d === 0) continue;
+        neighbours++;
+        alignX += other.vel.x;
+        alignY += other.vel.y;
+        cohX += ox;
+        cohY += oy;
+        if (d < 25) {
+          sepX -= ox / d;
+          sepY -= oy / d;
+        }
+      }
+      let steerX = Math.cos(toPlayer);
+      let steerY = Math.sin(toPlayer);
+      if (neighbours > 0) {
+        steerX += sepX * 1.5 + (alignX / neighbours) * 0.1 + (cohX / neighbours) * 0.01;
+        steerY += sepY * 1.5 + (alignY / neighbours) * 0.1 + (cohY / neighbours) * 0.01;
+      }
+      ent.vel.x = ent.vel.x * 0.9 + steerX * 0.3;
+      ent.vel.y = ent.vel.y * 0.9 + steerY * 0.3;
+      const v = Math.hypot(ent.vel.x, ent.vel.y);
+      if (v > speed) {
+        ent.vel.x = (ent.vel.x / v) * speed;
+        ent.vel.y = (ent.vel.y / v) * speed;
+      }
+      ent.rotation = Math.atan2(ent.vel.y, ent.vel.x);
+      break;
+    }
+    case EnemyArchetype.SPLITTER: {
+      // Freshly split children drift apart before chasing again
+      if (Math.hypot(ent.vel.x, ent.vel.y) > speed * 1.1) {
+        ent.vel.x *= 0.95;
+        ent.vel.y *= 0.95;
+      } else {
+        ent.vel.x = Math.cos(toPlayer) * speed;
+        ent.vel.y = Math.sin(toPlayer) * speed;
+      }
+      ent.rotation = toPlayer;
+      break;
+    }
+    default:
+      // Grunts and shield bearers chase in a straight line
+      ent.vel.x = Math.cos(toPlayer) * speed;
+      ent.vel.y = Math.sin(toPlayer) * speed;
+      ent.rotation = toPlayer;
+  }
+
+  // Shooting Logic
+  if (ent.fireInterval === undefined || ent.lastShot === undefined || now - ent.lastShot <= ent.fireInterval) return [];
+  ent.lastShot = now;
+  if (archetype === EnemyArchetype.SHIELD) {
+    return [-0.25, 0, 0.25].map(offset => createEnemyBullet(ent, ent.rotation + offset, def));
+  }
+  if (archetype === EnemyArchetype.SNIPER && dist > SNIPER_RANGE * 1.5) return []; // Only fires once in position
+  return [createEnemyBullet(ent, ent.rotation, def)];
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, shape: EnemyShape, r: number) => {
+  ctx.beginPath();
+  switch (shape) {
+    case 'DART':
+      ctx.moveTo(r * 1.2, 0);
+      ctx.lineTo(-r, r * 0.6);
+      ctx.lineTo(-r * 0.4, 0);
+      ctx.lineTo(-r, -r * 0.6);
+      break;
+    case 'DIAMOND':
+      ctx.moveTo(r * 1.2, 0);
+      ctx.lineTo(0, r * 0.7);
+      ctx.lineTo(-r, 0);
+      ctx.lineTo(0, -r * 0.7);
+      break;
+    case 'HEXAGON':
+    case 'OCTAGON': {
+      const sides = shape === 'HEXAGON' ? 6 : 8;
+      for (let i = 0; i < sides; i++) {
+        const a = (i / sides) * Math.PI * 2;
+        if (i === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+        else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+      }
+      break;
+    }
+    case 'CHEVRON':
+      ctx.moveTo(r, 0);
+      ctx.lineTo(-r, r);
+      ctx.lineTo(-r * 0.3, 0);
+      ctx.lineTo(-r, -r);
+      break;
+    default:
+      ctx.moveTo(r, 0);
+      ctx.lineTo(-r * 0.67, r * 0.67);
+      ctx.lineTo(-r * 0.67, -r * 0.67);
+  }
+  ctx.closePath();
+};
+
+// Draws an enemy at the origin (the caller has already translated to its position)
+export const drawEnemy = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+  const def = ENEMIES[ent.archetype ?? EnemyArchetype.GRUNT];
+
+  ctx.save();
+  ctx.rotate(ent.rotation);
+  ctx.fillStyle = ent.color;
+  traceShape(ctx, def.shape, ent.radius);
+  ctx.fill();
+
+  if (ent.archetype === EnemyArchetype.SHIELD) {
+    // Frontal shield arc
+    ctx.strokeStyle = '#38bdf8';
+    ctx.lineWidth = 4;
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = '#38bdf8';
+    ctx.beginPath();
+    ctx.arc(0, 0, ent.radius + 6, -SHIELD_ARC, SHIELD_ARC);
+    ctx.stroke();
+  }
+  ctx.restore();
+
+  // Health bar above enemy
+  const w = Math.max(20, ent.radius * 2);
+  ctx.fillStyle = 'red';
+  ctx.fillRect(-w / 2, -ent.radius - 8, w, 4);
+  ctx.fillStyle = '#22c55e';
+  ctx.fillRect(-w / 2, -ent.radius - 8, w * (ent.health / ent.maxHealth), 4);
+};
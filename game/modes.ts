@@ -0,0 +1,47 @@
+import { GameMode } from '../types';
+
+// Game modes only change how a run ends and a few spawn rules, the rest of the game is shared
+
+export interface ModeDefinition {
+  name: string;
+  description: string;
+  timeLimit: number | null; // ms of game time
+  waveTarget: number | null; // Clearing this wave wins the run
+  healthPickups: boolean;
+}
+
+export const MODES: Record<GameMode, ModeDefinition> = {
+  [GameMode.ENDLESS]: {
+    name: 'Endless',
+    description: 'Scavenge for as long as the hull holds.',
+    timeLimit: null,
+    waveTarget: null,
+    healthPickups: true
+  },
+  [GameMode.TIMED]: {
+    name: 'Timed',
+    description: 'Five minutes on the clock. Score as much as you can.',
+    timeLimit: 5 * 60 * 1000,
+    waveTarget: null,
+    healthPickups: true
+  },
+  [GameMode.WAVE_SURVIVAL]: {
+    name: 'Wave Survival',
+    description: 'Clear 12 waves with no health drops. Ends on a boss.',
+    timeLimit: null,
+    waveTarget: 12,
+    healthPickups: false
+  }
+};
+
+export const GAME_MODES = Object.keys(MODES) as GameMode[];
+
+// Seconds left on the clock, null for modes without one
+export const getTimeLeft = (mode: GameMode, time: number): number | null => {
+  const limit = MODES[mode].timeLimit;
+  return limit === null ? null : Math.max(0, Math.ceil((limit - time) / 1000));
+};
+
+// m:ss for the HUD timer and run durations
+export const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(Math.floor(seconds) % 60).toString().padStart(2, '0')}`;
@@ -0,0 +1,22 @@
+import { GameMode, PlayerStats } from '../types';
+import { createDefaultLoadout } from './weapons';
+import { BASE_MAX_HEALTH, createDefaultUpgrades } from './upgrades';
+import { getTimeLeft } from './modes';
+import { createDashState, getDashStatus } from './dash';
+
+// Fresh stats for the start of a run
+export const createInitialStats = (mode: GameMode = GameMode.ENDLESS): PlayerStats => ({
+  health: BASE_MAX_HEALTH,
+  maxHealth: BASE_MAX_HEALTH,
+  scrap: 0,
+  score: 0,
+  level: 1,
+  wave: 0,
+  weapon: createDefaultLoadout(),
+  upgrades: createDefaultUpgrades(),
+  boss: null,
+  mode,
+  timeLeft: getTimeLeft(mode, 0),
+  modifiers: [],
+  dash: getDashStatus(createDashState(createDefaultUpgrades()), createDefaultUpgrades())
+});
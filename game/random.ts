@@ -0,0 +1,26 @@
+// Seeded random numbers for the simulation. The engine never calls Math.random(), so a run can
+// be reproduced from its seed; only the UI picks a fresh seed when a run starts.
+
+export type Random = () => number;
+
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+export const createRandomState = (seed: number): RandomState => ({ seed: seed >>> 0, state: seed >>> 0 });
+
+// A new seed for a run that doesn't need to be reproduced
+export const createSeed = () => Math.floor(Math.random() * 0x100000000);
+
+// mulberry32: small, fast and good enough for gameplay. Returns a number in [0, 1).
+export const nextRandom = (rng: RandomState): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Wraps the state in a plain () => number for modules that just need rolls
+export const createRandom = (rng: RandomState): Random => () => nextRandom(rng);
@@ -0,0 +1,180 @@
+import { Arena, GameMode, ModifierId, RunSummary } from '../types';
+import { TICKS_PER_SECOND, accumulateFrame } from './clock';
+import { PlayerInput, ShipState, World, WorldEvent, WorldSnapshot, applyShipState, applyTimedEffect, createWorld, restoreWorld, snapshotWorld, tickWorld } from './world';
+
+// Deterministic replays. A run is fully described by its seed, the input fed to each tick and
+// the few things the UI changed between ticks, so recording those is enough to play it back
+// exactly. Input is stored run-length encoded since it rarely changes from one tick to the next.
+
+// 2: movement became analog, so older input plays back differently
+// 3: the charge cannon only charges while fire is held
+export const REPLAY_VERSION = 3;
+
+const KEYFRAME_TICKS = TICKS_PER_SECOND * 5; // Snapshot spacing for scrubbing backwards
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// [ticks, move x, move y, aim, dash, fire, turn, alt fire] — aim is null when the input left the heading
+// alone, dash, fire and alt fire are 1 while held. The last four are missing from recordings made before
+// they existed, which dashed never, fired automatically, never turned and never alt-fired.
+export type InputRun = [number, number, number, number | null, number?, number?, number?, number?];
+
+export type ReplayCommand =
+  | { tick: number; type: 'SHIP'; ship: ShipState } // Anomaly effects and shop purchases
+  | { tick: number; type: 'EFFECT'; effect: ModifierId; seconds: number | null } // Anomaly modifiers, null for the rest of the run
+  | { tick: number; type: 'ARENA'; arena: Arena } // The screen was resized, e.g. continuing on another device
+  | { tick: number; type: 'ANOMALY'; choice: string }; // For showing what was picked, the effect comes as SHIP
+
+export interface Replay {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  arena: Arena;
+  recordedAt: number;
+  inputs: InputRun[];
+  commands: ReplayCommand[];
+  result: RunSummary | null; // Set once the run is over
+}
+
+// Starts recording a freshly created world
+export const createRecording = (world: World, recordedAt: number): Replay => ({
+  version: REPLAY_VERSION,
+  seed: world.rng.seed,
+  mode: world.mode,
+  arena: { ...world.arena },
+  recordedAt,
+  inputs: [],
+  commands: [],
+  result: null
+});
+
+// Input is rounded before the world sees it, so the recording holds exactly what was simulated
+export const quantizeInput = ({ move, aim, turn, dash, fire, altFire }: PlayerInput): PlayerInput => ({
+  move: { x: Math.round(move.x * 100) / 100, y: Math.round(move.y * 100) / 100 },
+  aim: aim === undefined ? undefined : Math.round(aim * 1000) / 1000,
+  turn: Math.round((turn ?? 0) * 100) / 100,
+  dash: !!dash,
+  fire: fire !== false,
+  altFire: !!altFire
+});
+
+export const recordInput = (replay: Replay, input: PlayerInput, ticks: number) => {
+  if (ticks <= 0) return;
+  const aim = input.aim ?? null;
+  const dash = input.dash ? 1 : 0;
+  const fire = input.fire === false ? 0 : 1;
+  const turn = input.turn ?? 0;
+  const altFire = input.altFire ? 1 : 0;
+  const last = replay.inputs[replay.inputs.length - 1];
+  if (last && last[1] === input.move.x && last[2] === input.move.y && last[3] === aim
+    && (last[4] ?? 0) === dash && (last[5] ?? 1) === fire && (last[6] ?? 0) === turn && (last[7] ?? 0) === altFire) {
+    last[0] += ticks;
+  } else {
+    replay.inputs.push([ticks, input.move.x, input.move.y, aim, dash, fire, turn, altFire]);
+  }
+};
+
+export const recordCommand = (replay: Replay, command: ReplayCommand) => {
+  replay.commands.push(JSON.parse(JSON.stringify(command)));
+};
+
+export interface ReplayPlayer {
+  replay: Replay;
+  world: World;
+  length: number; // Total ticks
+  runStarts: number[]; // First tick of each input run
+  nextCommand: number;
+  keyframes: WorldSnapshot[]; // One every KEYFRAME_TICKS, filled in as playback gets there
+  paused: boolean;
+  speed: number;
+}
+
+// What the playback controls show, copied out of the player so React notices changes
+export interface ReplayView {
+  tick: number;
+  paused: boolean;
+  speed: number;
+}
+
+export type ReplayControl = Partial<Pick<ReplayPlayer, 'paused' | 'speed'>> & { seek?: number };
+
+// What one frame of playback produced, for sounds and banners
+export interface ReplayFrame {
+  events: WorldEvent[];
+  choices: string[];
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const world = createWorld({ arena: replay.arena, seed: replay.seed, mode: replay.mode });
+  const runStarts: number[] = [];
+  let tick = 0;
+  for (const run of replay.inputs) {
+    runStarts.push(tick);
+    tick += run[0];
+  }
+  return {
+    replay,
+    world,
+    length: tick,
+    runStarts,
+    nextCommand: 0,
+    keyframes: [snapshotWorld(world)],
+    paused: false,
+    speed: 1
+  };
+};
+
+const inputAt = (player: ReplayPlayer, tick: number): PlayerInput => {
+  // Binary search for the last run starting at or before the tick
+  let lo = 0;
+  let hi = player.runStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (player.runStarts[mid] <= tick) lo = mid;
+    else hi = mid - 1;
+  }
+  const [, x, y, aim, dash, fire, turn, altFire] = player.replay.inputs[lo];
+  return { move: { x, y }, aim: aim ?? undefined, turn: turn ?? 0, dash: dash === 1, fire: fire !== 0, altFire: altFire === 1 };
+};
+
+const runReplayTick = (player: ReplayPlayer, frame: ReplayFrame) => {
+  const { world, replay } = player;
+  const tick = world.clock.tick;
+
+  if (tick % KEYFRAME_TICKS === 0 && !player.keyframes[tick / KEYFRAME_TICKS]) {
+    player.keyframes[tick / KEYFRAME_TICKS] = snapshotWorld(world);
+  }
+
+  while (player.nextCommand < replay.commands.length && replay.commands[player.nextCommand].tick <= tick) {
+    const command = replay.commands[player.nextCommand++];
+    if (command.type === 'SHIP') applyShipState(world, JSON.parse(JSON.stringify(command.ship)));
+    else if (command.type === 'EFFECT') applyTimedEffect(world, command.effect, command.seconds);
+    else if (command.type === 'ARENA') world.arena = { ...command.arena };
+    else frame.choices.push(command.choice);
+  }
+
+  frame.events.push(...tickWorld(world, inputAt(player, tick)));
+};
+
+// Plays `dt` ms of real time at the player's speed. Pauses by itself at the end.
+export const advanceReplay = (player: ReplayPlayer, dt: number): ReplayFrame => {
+  const frame: ReplayFrame = { events: [], choices: [] };
+  if (player.paused) return frame;
+  const ticks = accumulateFrame(player.world.clock, dt * player.speed);
+  for (let t = 0; t < ticks && player.world.clock.tick < player.length; t++) runReplayTick(player, frame);
+  if (player.world.clock.tick >= player.length) player.paused = true;
+  return frame;
+};
+
+// Jumps to a tick, going back to the nearest keyframe and simulating forward from there
+export const seekReplay = (player: ReplayPlayer, tick: number) => {
+  const target = Math.max(0, Math.min(player.length, Math.round(tick)));
+  const keyframe = Math.min(Math.floor(target / KEYFRAME_TICKS), player.keyframes.length - 1);
+  const keyframeTick = keyframe * KEYFRAME_TICKS;
+  if (target < player.world.clock.tick || keyframeTick > player.world.clock.tick) {
+    player.world = restoreWorld(player.keyframes[keyframe]);
+    const next = player.replay.commands.findIndex(command => command.tick >= keyframeTick);
+    player.nextCommand = next === -1 ? player.replay.commands.length : next;
+  }
+  const skipped: ReplayFrame = { events: [], choices: [] };
+  while (player.world.clock.tick < target) runReplayTick(player, skipped);
+};
@@ -0,0 +1,95 @@
+import { ShipUpgrades, UpgradeId } from '../types';
+
+export const BASE_MAX_HEALTH = 100;
+export const BASE_THRUST = 0.5;
+export const BASE_MAGNET_RADIUS = 150;
+
+export interface UpgradeDefinition {
+  name: string;
+  description: string;
+  baseCost: number;
+  costGrowth: number; // Cost multiplier for every tier already owned
+  maxTier: number;
+}
+
+export const UPGRADES: Record<UpgradeId, UpgradeDefinition> = {
+  MAX_HEALTH: {
+    name: 'Hull Plating',
+    description: '+20 max health',
+    baseCost: 40,
+    costGrowth: 1.6,
+    maxTier: 5
+  },
+  THRUST: {
+    name: 'Thrusters',
+    description: '+15% acceleration',
+    baseCost: 30,
+    costGrowth: 1.5,
+    maxTier: 5
+  },
+  FIRE_RATE: {
+    name: 'Autoloader',
+    description: '-8% time between shots',
+    baseCost: 50,
+    costGrowth: 1.7,
+    maxTier: 5
+  },
+  MAGNET: {
+    name: 'Tractor Field',
+    description: '+40 scrap magnet radius',
+    baseCost: 25,
+    costGrowth: 1.5,
+    maxTier: 5
+  },
+  DAMAGE: {
+    name: 'Overcharged Rounds',
+    description: '+15% bullet damage',
+    baseCost: 60,
+    costGrowth: 1.7,
+    maxTier: 5
+  },
+  DASH_CHARGES: {
+    name: 'Capacitor Bank',
+    description: '+1 dash charge',
+    baseCost: 80,
+    costGrowth: 2,
+    maxTier: 2
+  },
+  DASH_STRIKE: {
+    name: 'Ram Prow',
+    description: 'Dashing into enemies deals +25 damage',
+    baseCost: 60,
+    costGrowth: 1.8,
+    maxTier: 3
+  }
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADES) as UpgradeId[];
+
+export const createDefaultUpgrades = (): ShipUpgrades => ({
+  MAX_HEALTH: 0,
+  THRUST: 0,
+  FIRE_RATE: 0,
+  MAGNET: 0,
+  DAMAGE: 0,
+  DASH_CHARGES: 0,
+  DASH_STRIKE: 0
+});
+
+// Price of the next tier, or null once the upgrade is maxed out
+export const getUpgradeCost = (id: UpgradeId, currentTier: number): number | null => {
+  const def = UPGRADES[id];
+  if (currentTier >= def.maxTier) return null;
+  return Math.round(def.baseCost * Math.pow(def.costGrowth, currentTier));
+};
+
+// What the purchased tiers add up to, in the units the simulation uses
+export const getShipModifiers = (upgrades: ShipUpgrades) => ({
+  maxHealth: BASE_MAX_HEALTH + upgrades.MAX_HEALTH * 20,
+  thrust: BASE_THRUST * (1 + upgrades.THRUST * 0.15),
+  fireRateMultiplier: 1 - upgrades.FIRE_RATE * 0.08,
+  magnetRadius: BASE_MAGNET_RADIUS + upgrades.MAGNET * 40,
+  damageMultiplier: 1 + upgrades.DAMAGE * 0.15,
+  dashCharges: 1 + upgrades.DASH_CHARGES,
+  dashDamage: upgrades.DASH_STRIKE * 25 // Per enemy per dash, nothing without the upgrade
+});
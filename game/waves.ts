@@ -0,0 +1,140 @@
+import { EnemyArchetype } from '../types';
+
+// Wave director: decides when enemies spawn, when a wave is cleared and when the run levels up.
+// Difficulty comes from the curve below rather than being hardcoded in the game loop.
+
+export const WAVES_PER_LEVEL = 3;
+export const WAVE_BREAK_TICKS = 180; // Calm between waves (3 seconds)
+export const BOSS_WAVE_INTERVAL = WAVES_PER_LEVEL * 2; // Every other level ends in a boss fight
+
+export interface DifficultyPoint {
+  level: number;
+  spawnInterval: number; // ticks between spawns
+  enemiesPerWave: number;
+  healthMultiplier: number;
+  speedMultiplier: number;
+  fireIntervalMultiplier: number; // < 1 fires faster
+  archetypeWeights: Partial<Record<EnemyArchetype, number>>; // Relative spawn chances
+}
+
+// Values between points are interpolated (the archetype mix steps instead), levels past the last point reuse it
+export const DIFFICULTY_CURVE: DifficultyPoint[] = [
+  {
+    level: 1, spawnInterval: 60, enemiesPerWave: 8, healthMultiplier: 1, speedMultiplier: 1, fireIntervalMultiplier: 1,
+    archetypeWeights: { GRUNT: 1 }
+  },
+  {
+    level: 2, spawnInterval: 55, enemiesPerWave: 10, healthMultiplier: 1.1, speedMultiplier: 1.05, fireIntervalMultiplier: 0.95,
+    archetypeWeights: { GRUNT: 6, RUSHER: 3, DRONE: 1 }
+  },
+  {
+    level: 3, spawnInterval: 50, enemiesPerWave: 12, healthMultiplier: 1.3, speedMultiplier: 1.1, fireIntervalMultiplier: 0.9,
+    archetypeWeights: { GRUNT: 5, RUSHER: 3, DRONE: 2, SNIPER: 2 }
+  },
+  {
+    level: 6, spawnInterval: 40, enemiesPerWave: 18, healthMultiplier: 1.8, speedMultiplier: 1.25, fireIntervalMultiplier: 0.75,
+    archetypeWeights: { GRUNT: 4, RUSHER: 3, DRONE: 3, SNIPER: 2, SHIELD: 2, SPLITTER: 2 }
+  },
+  {
+    level: 10, spawnInterval: 30, enemiesPerWave: 25, healthMultiplier: 2.6, speedMultiplier: 1.4, fireIntervalMultiplier: 0.6,
+    archetypeWeights: { GRUNT: 3, RUSHER: 3, DRONE: 4, SNIPER: 3, SHIELD: 3, SPLITTER: 3 }
+  },
+  {
+    level: 15, spawnInterval: 22, enemiesPerWave: 35, healthMultiplier: 4, speedMultiplier: 1.6, fireIntervalMultiplier: 0.45,
+    archetypeWeights: { GRUNT: 2, RUSHER: 3, DRONE: 4, SNIPER: 3, SHIELD: 4, SPLITTER: 4 }
+  }
+];
+
+export const getDifficulty = (level: number): DifficultyPoint => {
+  const curve = DIFFICULTY_CURVE;
+  if (level <= curve[0].level) return { ...curve[0], level };
+  for (let i = 1; i < curve.length; i++) {
+    const next = curve[i];
+    if (level <= next.level) {
+      const prev = curve[i - 1];
+      const t = (level - prev.level) / (next.level - prev.level);
+      const lerp = (a: number, b: number) => a + (b - a) * t;
+      return {
+        level,
+        spawnInterval: Math.round(lerp(prev.spawnInterval, next.spawnInterval)),
+        enemiesPerWave: Math.round(lerp(prev.enemiesPerWave, next.enemiesPerWave)),
+        healthMultiplier: lerp(prev.healthMultiplier, next.healthMultiplier),
+        speedMultiplier: lerp(prev.speedMultiplier, next.speedMultiplier),
+        fireIntervalMultiplier: lerp(prev.fireIntervalMultiplier, next.fireIntervalMultiplier),
+        archetypeWeights: level === next.level ? next.archetypeWeights : prev.archetypeWeights
+      };
+    }
+  }
+  return { ...curve[curve.length - 1], level };
+};
+
+export const isBossWave = (wave: number) => wave > 0 && wave % BOSS_WAVE_INTERVAL === 0;
+
+export const getWaveClearBonus = (wave: number, level: number) => 100 + wave * 25 + (level - 1) * 50;
+
+export interface WaveState {
+  wave: number;
+  level: number;
+  toSpawn: number; // Enemies still to spawn this wave
+  spawnTimer: number;
+  breakTimer: number; // Counts down between waves, 0 while a wave is running
+}
+
+export type WaveEvent =
+  | { type: 'WAVE_STARTED'; wave: number }
+  | { type: 'SPAWN_ENEMY' }
+  | { type: 'SPAWN_BOSS'; bossNumber: number }
+  | { type: 'WAVE_CLEARED'; wave: number; bonus: number }
+  | { type: 'LEVEL_UP'; level: number };
+
+export const createWaveState = (): WaveState => ({
+  wave: 0,
+  level: 1,
+  toSpawn: 0,
+  spawnTimer: 0,
+  breakTimer: 60 // Short lead-in before wave 1
+});
+
+// Advances the director by one tick and reports what happened. `enemiesAlive` includes bosses.
+export const updateWaveDirector = (state: WaveState, enemiesAlive: number): WaveEvent[] => {
+  const events: WaveEvent[] = [];
+
+  if (state.breakTimer > 0) {
+    state.breakTimer--;
+    if (state.breakTimer === 0) {
+      state.wave++;
+      state.spawnTimer = 0;
+      events.push({ type: 'WAVE_STARTED', wave: state.wave });
+      if (isBossWave(state.wave)) {
+        // The boss brings its own minions
+        state.toSpawn = 0;
+        events.push({ type: 'SPAWN_BOSS', bossNumber: state.wave / BOSS_WAVE_INTERVAL });
+      } else {
+        state.toSpawn = getDifficulty(state.level).enemiesPerWave;
+      }
+    }
+    return events;
+  }
+
+  if (state.toSpawn > 0) {
+    state.spawnTimer++;
+    if (state.spawnTimer > getDifficulty(state.level).spawnInterval) {
+      state.spawnTimer = 0;
+      state.toSpawn--;
+      events.push({ type: 'SPAWN_ENEMY' });
+    }
+    return events;
+  }
+
+  // Everything spawned and destroyed: wave cleared
+  if (enemiesAlive === 0) {
+    events.push({ type: 'WAVE_CLEARED', wave: state.wave, bonus: getWaveClearBonus(state.wave, state.level) });
+    if (state.wave % WAVES_PER_LEVEL === 0) {
+      state.level++;
+      events.push({ type: 'LEVEL_UP', level: state.level });
+    }
+    state.breakTimer = WAVE_BREAK_TICKS;
+  }
+
+  return events;
+};
@@ -0,0 +1,256 @@
+import { Entity, EntityType, Vector2, WeaponLoadout, WeaponType, AnomalyEffect } from '../types';
+import { COLORS } from '../constants';
+
+export const MAX_WEAPON_TIER = 5;
+
+export interface WeaponDefinition {
+  name: string;
+  color: string;
+  fireRate: number; // ms between shots at tier 1
+  damage: number;
+  bulletSpeed: number;
+  bulletRadius: number;
+  life: number; // ticks
+  pierce: number;
+  // How the stats grow with each tier above 1
+  damagePerTier: number;
+  fireRatePerTier: number;
+}
+
+export const WEAPONS: Record<WeaponType, WeaponDefinition> = {
+  [WeaponType.BLASTER]: {
+    name: 'Blaster',
+    color: COLORS.BULLET,
+    fireRate: 150,
+    damage: 10,
+    bulletSpeed: 12,
+    bulletRadius: 4,
+    life: 60,
+    pierce: 0,
+    damagePerTier: 3,
+    fireRatePerTier: 12
+  },
+  [WeaponType.SPREAD]: {
+    name: 'Spread Shot',
+    color: '#fb923c', // Orange 400
+    fireRate: 320,
+    damage: 7,
+    bulletSpeed: 10,
+    bulletRadius: 3,
+    life: 40,
+    pierce: 0,
+    damagePerTier: 2,
+    fireRatePerTier: 20
+  },
+  [WeaponType.LASER]: {
+    name: 'Piercing Laser',
+    color: '#22d3ee', // Cyan 400
+    fireRate: 260,
+    damage: 8,
+    bulletSpeed: 22,
+    bulletRadius: 3,
+    life: 45,
+    pierce: 2,
+    damagePerTier: 3,
+    fireRatePerTier: 15
+  },
+  [WeaponType.HOMING]: {
+    name: 'Homing Missiles',
+    color: '#f472b6', // Pink 400
+    fireRate: 500,
+    damage: 18,
+    bulletSpeed: 7,
+    bulletRadius: 5,
+    life: 120,
+    pierce: 0,
+    damagePerTier: 5,
+    fireRatePerTier: 40
+  },
+  [WeaponType.CHARGE]: {
+    name: 'Charge Cannon',
+    color: '#a3e635', // Lime 400
+    fireRate: 1200, // Time to reach full charge
+    damage: 60,
+    bulletSpeed: 9,
+    bulletRadius: 12,
+    life: 90,
+    pierce: 99,
+    damagePerTier: 20,
+    fireRatePerTier: 120
+  }
+};
+
+export const HOMING_TURN_RATE = 0.08; // radians per tick
+export const MIN_CHARGE = 0.25; // A charge cannon let go before this fizzles
+
+// Alternate fire sends the current weapon out three ways at once and reloads three times as slowly
+export const VOLLEY_ANGLES = [-0.35, 0, 0.35]; // radians off the heading
+export const VOLLEY_RELOAD = 3; // times the weapon's fire rate
+
+export const createDefaultLoadout = (): WeaponLoadout => ({ type: WeaponType.BLASTER, tier: 1 });
+
+const clampTier = (tier: number) => Math.max(1, Math.min(MAX_WEAPON_TIER, Math.round(tier)));
+
+// Resolved stats for a weapon at its current tier
+export const getWeaponStats = (loadout: WeaponLoadout) => {
+  const def = WEAPONS[loadout.type];
+  const steps = clampTier(loadout.tier) - 1;
+  return {
+    ...def,
+    damage: def.damage + def.damagePerTier * steps,
+    fireRate: Math.max(60, def.fireRate - def.fireRatePerTier * steps),
+    pierce: loadout.type === WeaponType.LASER ? def.pierce + steps : def.pierce
+  };
+};
+
+// A WEAPON anomaly equips the offered weapon (or upgrades the current one) with `value` as the tier
+export const applyWeaponEffect = (current: WeaponLoadout, effect: AnomalyEffect): WeaponLoadout => {
+  const type = effect.weaponType && WEAPONS[effect.weaponType] ? effect.weaponType : current.type;
+  if (type === current.type) {
+    // Upgrading never downgrades, and always gains at least one tier
+    return { type, tier: clampTier(Math.max(current.tier + 1, effect.value)) };
+  }
+  return { type, tier: clampTier(effect.value) };
+};
+
+// Builds the projectiles for one trigger pull. `charge` (0-1) is how far the charge cannon got
+export const fireWeapon = (loadout: WeaponLoadout, origin: Vector2, rotation: number, damageMultiplier = 1, charge = 1): Entity[] => {
+  const stats = getWeaponStats(loadout);
+  const tier = clampTier(loadout.tier);
+
+  const makeBullet = (angle: number): Entity => {
+    const bx = Math.cos(angle);
+    const by = Math.sin(angle);
+    return {
+      id: 'bullet',
+      type: EntityType.BULLET,
+      pos: { x: origin.x + bx * 30, y: origin.y + by * 30 },
+      vel: { x: bx * stats.bulletSpeed, y: by * stats.bulletSpeed },
+      radius: stats.bulletRadius,
+      color: stats.color,
+      health: 1,
+      maxHealth: 1,
+      rotation: angle,
+      life: stats.life,
+      owner: 'PLAYER',
+      damage: stats.damage * damageMultiplier,
+      weapon: loadout.type,
+      pierce: stats.pierce,
+      hitIds: stats.pierce > 0 ? [] : undefined
+    };
+  };
+
+  switch (loadout.type) {
+    case WeaponType.SPREAD: {
+      // 3 pellets at tier 1, two more at tiers 3 and 5
+      const count = 3 + 2 * Math.floor((tier - 1) / 2);
+      const arc = 0.12 * (count - 1);
+      const bullets: Entity[] = [];
+      for (let i = 0; i < count; i++) {
+        const angle = rotation - arc / 2 + (arc / (count - 1)) * i;
+        bullets.push(makeBullet(angle));
+      }
+      return bullets;
+    }
+    case WeaponType.HOMING: {
+      // Extra missiles at tiers 3 and 5, launched in a small fan
+      const count = 1 + Math.floor((tier - 1) / 2);
+      const bullets: Entity[] = [];
+      for (let i = 0; i < count; i++) {
+        const offset = (i - (count - 1) / 2) * 0.5;
+        bullets.push(makeBullet(rotation + offset));
+      }
+      return bullets;
+    }
+    case WeaponType.CHARGE: {
+      // Damage and size grow with the charge, only a full charge pierces
+      const shot = makeBullet(rotation);
+      shot.damage = stats.damage * damageMultiplier * charge;
+      shot.radius = stats.bulletRadius * (0.5 + 0.5 * charge);
+      shot.pierce = charge >= 1 ? stats.pierce : 0;
+      shot.hitIds = shot.pierce > 0 ? [] : undefined;
+      return [shot];
+    }
+    default:
+      return [makeBullet(rotation)];
+  }
+};
+
+export const fireVolley = (loadout: WeaponLoadout, origin: Vector2, rotation: number, damageMultiplier = 1, charge = 1): Entity[] =>
+  VOLLEY_ANGLES.flatMap(angle => fireWeapon(loadout, origin, rotation + angle, damageMultiplier, charge));
+
+// Steers a homing missile towards the closest enemy
+export const steerHoming = (bullet: Entity, enemies: Entity[]) => {
+  let target: Entity | null = null;
+  let best = Infinity;
+  for (const enemy of enemies) {
+    const d = Math.hypot(enemy.pos.x - bullet.pos.x, enemy.pos.y - bullet.pos.y);
+    if (d < best) {
+      best = d;
+      target = enemy;
+    }
+  }
+  if (!target) return;
+
+  const speed = Math.hypot(bullet.vel.x, bullet.vel.y);
+  const desired = Math.atan2(target.pos.y - bullet.pos.y, target.pos.x - bullet.pos.x);
+  let diff = desired - bullet.rotation;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  bullet.rotation += Math.max(-HOMING_TURN_RATE, Math.min(HOMING_TURN_RATE, diff));
+  bullet.vel.x = Math.cos(bullet.rotation) * speed;
+  bullet.vel.y = Math.sin(bullet.rotation) * speed;
+};
+
+// Draws a projectile at the origin (the caller has already translated to its position)
+export const drawProjectile = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+  switch (ent.weapon) {
+    case WeaponType.LASER:
+      ctx.rotate(ent.rotation);
+      ctx.shadowBlur = 12;
+      ctx.shadowColor = ent.color;
+      ctx.fillStyle = ent.color;
+      ctx.fillRect(-18, -ent.radius / 2, 24, ent.radius);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(-14, -0.5, 18, 1);
+      break;
+    case WeaponType.HOMING:
+      ctx.rotate(ent.rotation);
+      // Exhaust trail
+      ctx.fillStyle = 'rgba(249, 115, 22, 0.6)';
+      ctx.beginPath();
+      ctx.moveTo(-5, 2);
+      ctx.lineTo(-12 - Math.random() * 6, 0);
+      ctx.lineTo(-5, -2);
+      ctx.fill();
+      ctx.fillStyle = ent.color;
+      ctx.beginPath();
+      ctx.moveTo(7, 0);
+      ctx.lineTo(-5, 4);
+      ctx.lineTo(-5, -4);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case WeaponType.CHARGE:
+      ctx.shadowBlur = 25;
+      ctx.shadowColor = ent.color;
+      ctx.fillStyle = ent.color;
+      ctx.beginPath();
+      ctx.arc(0, 0, ent.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.beginPath();
+      ctx.arc(0, 0, ent.radius * 0.5, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    default:
+      ctx.fillStyle = ent.color;
+      ctx.beginPath();
+      ctx.arc(0, 0, ent.radius, 0, Math.PI * 2);
+      ctx.fill();
+      // Glow
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = ent.color;
+      ctx.stroke();
+  }
+};
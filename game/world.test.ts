@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { EnemyArchetype, Entity, EntityType, Vector2, WeaponType } from '../types';
+import { PlayerInput, World, WorldEvent, applyTimedEffect, createWorld, isEnemy, spawnEntity, tickWorld } from './world';
+import { createEnemy } from './enemies';
+import { TICK_MS, createGameClock } from './clock';
+import { createRandom, createRandomState } from './random';
+import { getDifficulty, getWaveClearBonus } from './waves';
+import { MIN_CHARGE, VOLLEY_ANGLES, VOLLEY_RELOAD, createDefaultLoadout, getWeaponStats } from './weapons';
+
+// Engine rules against a seeded world on a fresh clock. The player holds fire so only the bullets
+// a test places are in play.
+
+const IDLE: PlayerInput = { move: { x: 0, y: 0 }, fire: false };
+const LEAD_IN_TICKS = 60;
+
+const makeWorld = (seed = 1234) => createWorld({ arena: { width: 800, height: 600 }, seed, clock: createGameClock() });
+
+const run = (world: World, ticks: number, input: PlayerInput = IDLE): WorldEvent[] => {
+  const events: WorldEvent[] = [];
+  for (let i = 0; i < ticks; i++) events.push(...tickWorld(world, input));
+  return events;
+};
+
+const bullet = (owner: 'PLAYER' | 'ENEMY', pos: Vector2, damage: number): Entity => ({
+  id: 'bullet',
+  type: EntityType.BULLET,
+  pos: { ...pos },
+  vel: { x: 0, y: 0 },
+  radius: 5,
+  color: '#fff',
+  health: 1,
+  maxHealth: 1,
+  rotation: 0,
+  life: 60,
+  owner,
+  damage
+});
+
+const grunt = (pos: Vector2): Entity =>
+  createEnemy(EnemyArchetype.GRUNT, { ...pos }, getDifficulty(1), 0, createRandom(createRandomState(1)));
+
+// Stops the wave director from spawning anything during the test
+const holdWaves = (world: World) => {
+  world.waves.breakTimer = 1_000_000;
+};
+
+const ofType = <T extends WorldEvent['type']>(events: WorldEvent[], type: T) =>
+  events.filter((event): event is Extract<WorldEvent, { type: T }> => event.type === type);
+
+describe('wave spawning', () => {
+  it('starts wave 1 after the lead-in', () => {
+    const world = makeWorld();
+    expect(ofType(run(world, LEAD_IN_TICKS - 1), 'WAVE_STARTED')).toHaveLength(0);
+    expect(ofType(run(world, 1), 'WAVE_STARTED')).toEqual([{ type: 'WAVE_STARTED', wave: 1 }]);
+    expect(world.waves.toSpawn).toBe(getDifficulty(1).enemiesPerWave);
+    expect(world.entities.filter(isEnemy)).toHaveLength(0);
+  });
+
+  it('spawns one enemy per spawn interval until the wave is used up', () => {
+    const world = makeWorld();
+    const { spawnInterval, enemiesPerWave } = getDifficulty(1);
+    run(world, LEAD_IN_TICKS);
+
+    run(world, spawnInterval);
+    expect(world.entities.filter(isEnemy)).toHaveLength(0);
+    run(world, 1);
+    expect(world.entities.filter(isEnemy)).toHaveLength(1);
+
+    run(world, (spawnInterval + 1) * (enemiesPerWave - 1));
+    expect(world.waves.toSpawn).toBe(0);
+  });
+
+  it('spawns enemies just off screen', () => {
+    const world = makeWorld();
+    run(world, LEAD_IN_TICKS + getDifficulty(1).spawnInterval + 1);
+    const [enemy] = world.entities.filter(isEnemy); // Enemies start moving the tick after they spawn
+    const { x, y } = enemy.pos;
+    const offScreen = x < 0 || y < 0 || x > world.arena.width || y > world.arena.height;
+    expect(offScreen).toBe(true);
+  });
+
+  it('plays out the same for the same seed', () => {
+    const a = makeWorld(99);
+    const b = makeWorld(99);
+    run(a, 600);
+    run(b, 600);
+    expect(b.entities).toEqual(a.entities);
+    expect(b.player).toEqual(a.player);
+  });
+
+  it('clears the wave once everything is spawned and destroyed', () => {
+    const world = makeWorld();
+    world.waves = { ...world.waves, wave: 3, toSpawn: 0, breakTimer: 0 };
+    const events = run(world, 1);
+    expect(ofType(events, 'WAVE_CLEARED')).toEqual([{ type: 'WAVE_CLEARED', wave: 3, bonus: getWaveClearBonus(3, 1) }]);
+    expect(ofType(events, 'LEVEL_UP')).toEqual([{ type: 'LEVEL_UP', level: 2 }]);
+    expect(world.score).toBe(getWaveClearBonus(3, 1));
+    expect(world.entities.some(ent => ent.type === EntityType.DOCKING_BEACON)).toBe(true);
+  });
+});
+
+describe('collisions', () => {
+  it('damages an enemy hit by a player bullet and removes the bullet', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const enemy = grunt({ x: 100, y: 100 });
+    spawnEntity(world, enemy, bullet('PLAYER', { x: 100, y: 100 }, 5));
+
+    const damage = ofType(run(world, 1), 'DAMAGE');
+    expect(damage).toHaveLength(1);
+    expect(damage[0]).toMatchObject({ target: enemy, amount: 5, cause: 'BULLET' });
+    expect(enemy.health).toBe(enemy.maxHealth - 5);
+    expect(world.entities.some(ent => ent.type === EntityType.BULLET && ent.owner === 'PLAYER')).toBe(false);
+  });
+
+  it('destroys an enemy that runs out of health, scoring it and dropping scrap', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const enemy = grunt({ x: 100, y: 100 });
+    spawnEntity(world, enemy, bullet('PLAYER', { x: 100, y: 100 }, 100));
+
+    const kills = ofType(run(world, 1), 'KILL');
+    expect(kills).toEqual([{ type: 'KILL', entity: enemy, score: enemy.value }]);
+    expect(world.kills).toBe(1);
+    expect(world.score).toBe(enemy.value);
+    expect(world.entities).not.toContain(enemy);
+    expect(world.entities.some(ent => ent.type === EntityType.SCRAP)).toBe(true);
+  });
+
+  it('splits a destroyed splitter into smaller enemies that stay alive', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const splitter = createEnemy(EnemyArchetype.SPLITTER, { x: 100, y: 100 }, getDifficulty(1), 0, createRandom(createRandomState(1)));
+    spawnEntity(world, splitter, bullet('PLAYER', { x: 100, y: 100 }, 100));
+
+    run(world, 1);
+    const children = world.entities.filter(isEnemy);
+    expect(children).toHaveLength(2);
+    expect(children.every(child => !child.dead && child.generation === 1 && child.radius < splitter.radius)).toBe(true);
+    run(world, 1);
+    expect(world.entities.filter(isEnemy)).toHaveLength(2);
+  });
+
+  it('leaves bullets that miss alone', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const enemy = grunt({ x: 100, y: 100 });
+    const miss = bullet('PLAYER', { x: 700, y: 100 }, 5);
+    spawnEntity(world, enemy, miss);
+
+    expect(ofType(run(world, 1), 'DAMAGE')).toHaveLength(0);
+    expect(enemy.health).toBe(enemy.maxHealth);
+    expect(world.entities).toContain(miss);
+  });
+
+  it('collects scrap the player flies into', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    spawnEntity(world, { ...bullet('PLAYER', world.player.pos, 0), id: 'scrap', type: EntityType.SCRAP, owner: undefined, value: 7 });
+
+    expect(ofType(run(world, 1), 'PICKUP')).toEqual([{ type: 'PICKUP', kind: EntityType.SCRAP, value: 7 }]);
+    expect(world.scrapCollected).toBe(7);
+  });
+});
+
+describe('alternate fire', () => {
+  const ALT_FIRE: PlayerInput = { ...IDLE, altFire: true };
+  const reloadTicks = Math.round(getWeaponStats(createDefaultLoadout()).fireRate * VOLLEY_RELOAD / TICK_MS) + 1;
+
+  it('fires a volley even with the guns held', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    expect(ofType(run(world, reloadTicks, ALT_FIRE), 'PLAYER_FIRED')).toHaveLength(1);
+    expect(world.entities.filter(ent => ent.type === EntityType.BULLET && ent.owner === 'PLAYER')).toHaveLength(VOLLEY_ANGLES.length);
+  });
+
+  it('reloads more slowly than normal fire', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const volleys = ofType(run(world, reloadTicks * 2, ALT_FIRE), 'PLAYER_FIRED');
+    expect(volleys).toHaveLength(2);
+    expect(ofType(run(makeWorld(), reloadTicks * 2, { ...IDLE, fire: true }), 'PLAYER_FIRED').length).toBeGreaterThan(volleys.length);
+  });
+});
+
+describe('charge cannon', () => {
+  const CANNON = { type: WeaponType.CHARGE, tier: 1 };
+  const FIRE: PlayerInput = { ...IDLE, fire: true };
+  const stats = getWeaponStats(CANNON);
+  const chargeTicks = Math.round(stats.fireRate / TICK_MS);
+
+  // Starts from an empty charge
+  const cannonWorld = () => {
+    const world = makeWorld();
+    holdWaves(world);
+    world.weapon = CANNON;
+    run(world, 1);
+    return world;
+  };
+  const shots = (world: World) => world.entities.filter(ent => ent.type === EntityType.BULLET && ent.owner === 'PLAYER');
+
+  it('charges while fire is held and fires by itself at full charge', () => {
+    const world = cannonWorld();
+    expect(ofType(run(world, chargeTicks - 1, FIRE), 'PLAYER_FIRED')).toHaveLength(0);
+    expect(ofType(run(world, 1, FIRE), 'PLAYER_FIRED')).toHaveLength(1);
+    expect(shots(world)).toEqual([expect.objectContaining({ damage: stats.damage, radius: stats.bulletRadius, pierce: stats.pierce })]);
+  });
+
+  it('fires a weaker, smaller shot that does not pierce when let go early', () => {
+    const world = cannonWorld();
+    run(world, chargeTicks / 2, FIRE);
+    expect(ofType(run(world, 1), 'PLAYER_FIRED')).toHaveLength(1);
+    const [shot] = shots(world);
+    expect(shot.damage).toBeCloseTo(stats.damage / 2, -1);
+    expect(shot.radius).toBeLessThan(stats.bulletRadius);
+    expect(shot.pierce).toBe(0);
+  });
+
+  it('fizzles when let go too soon', () => {
+    const world = cannonWorld();
+    run(world, Math.floor(chargeTicks * MIN_CHARGE) - 2, FIRE); // The tick it's let go on charges too
+    expect(ofType(run(world, 1), 'PLAYER_FIRED')).toHaveLength(0);
+  });
+
+  it('stays uncharged while fire is not held', () => {
+    const world = cannonWorld();
+    expect(ofType(run(world, chargeTicks * 2), 'PLAYER_FIRED')).toHaveLength(0);
+  });
+});
+
+describe('player damage', () => {
+  it('takes damage from enemy bullets', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    spawnEntity(world, bullet('ENEMY', world.player.pos, 8));
+
+    const damage = ofType(run(world, 1), 'DAMAGE');
+    expect(damage).toHaveLength(1);
+    expect(damage[0]).toMatchObject({ target: world.player, amount: 8, cause: 'BULLET' });
+    expect(world.player.health).toBe(world.player.maxHealth - 8);
+    expect(world.entities.some(ent => ent.type === EntityType.BULLET)).toBe(false);
+  });
+
+  it('takes contact damage from enemies, which die on impact', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    const enemy = grunt(world.player.pos);
+    spawnEntity(world, enemy);
+
+    const damage = ofType(run(world, 1), 'DAMAGE').filter(event => event.target === world.player);
+    expect(damage).toEqual([expect.objectContaining({ amount: 10, cause: 'CONTACT', source: enemy })]);
+    expect(world.entities).not.toContain(enemy);
+  });
+
+  it('is ignored while an anomaly shield is up', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    applyTimedEffect(world, 'SHIELD', 5);
+    spawnEntity(world, bullet('ENEMY', world.player.pos, 8));
+
+    expect(ofType(run(world, 1), 'DAMAGE')).toHaveLength(0);
+    expect(world.player.health).toBe(world.player.maxHealth);
+  });
+
+  it('is ignored during dash i-frames', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    run(world, 1, { ...IDLE, dash: true });
+    spawnEntity(world, bullet('ENEMY', world.player.pos, 8));
+
+    expect(ofType(run(world, 1), 'DAMAGE')).toHaveLength(0);
+    expect(world.player.health).toBe(world.player.maxHealth);
+  });
+
+  it('reports the death when health runs out', () => {
+    const world = makeWorld();
+    holdWaves(world);
+    world.player.health = 5;
+    spawnEntity(world, bullet('ENEMY', world.player.pos, 10));
+
+    expect(ofType(run(world, 1), 'PLAYER_DIED')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,639 @@
+import { Arena, BossId, EnemyArchetype, Entity, EntityType, GameMode, RunEnd, ModifierId, RunSummary, ShipUpgrades, Vector2, WeaponLoadout, WeaponType } from '../types';
+import { COLORS, FRICTION, PLAYER_ROTATION_SPEED } from '../constants';
+import { MIN_CHARGE, VOLLEY_RELOAD, createDefaultLoadout, fireVolley, fireWeapon, getWeaponStats, steerHoming } from './weapons';
+import { BASE_MAX_HEALTH, createDefaultUpgrades, getShipModifiers } from './upgrades';
+import { WaveEvent, WaveState, createWaveState, getDifficulty, updateWaveDirector } from './waves';
+import { ENEMIES, createEnemy, isShieldBlocking, pickArchetype, splitEnemy, updateEnemy } from './enemies';
+import { BOSSES, BOSS_ROTATION, createBoss, getBeamDamage, updateBoss } from './bosses';
+import { CollisionLayer, SpatialGrid, createSpatialGrid, forEachCollision, queryGrid, rebuildGrid, removeDead } from './collision';
+import { GameClock, TICK_MS, accumulateFrame, advanceTick, createGameClock, resetAccumulator } from './clock';
+import { Random, RandomState, createRandom, createRandomState } from './random';
+import { MODES } from './modes';
+import { ModifierRules, TimedEffect, addTimedEffect, getModifierRules, isHostile } from './effects';
+import { DashState, createDashState, isDashInvulnerable, isDashing, updateDash } from './dash';
+
+// Headless game engine. A World owns every entity and all of the run's state; ticking it applies
+// the game rules and reports what happened as events. It never touches the DOM, React, audio,
+// Date.now() or Math.random(), so the same seed and inputs always play out the same way.
+
+const HEALTH_SPAWN_TICKS = 900; // Roll for a health pickup every 15 seconds
+const ANOMALY_SCORE_INTERVAL = 500;
+
+export interface PlayerInput {
+  move: Vector2; // Desired direction and strength, anything longer than 1 is cut down to 1
+  aim?: number; // Ship rotation in radians, leave out to keep the current heading
+  turn?: number; // -1 to 1, turns the ship at PLAYER_ROTATION_SPEED per tick when there's no aim
+  dash?: boolean; // Held down; a dash starts on the tick it goes down
+  fire?: boolean; // False holds fire, leave out for automatic fire
+  altFire?: boolean; // Held down; fires volleys instead, whatever `fire` says
+}
+
+export type DamageCause = 'BULLET' | 'CONTACT' | 'BEAM' | 'DASH'; // Dashes only ever hit enemies
+
+export type WorldEvent =
+  | { type: 'PLAYER_FIRED'; weapon: WeaponType }
+  | { type: 'ENEMY_FIRED'; source: Entity } // An enemy or boss fired this tick, however many bullets
+  | { type: 'DASHED' }
+  | { type: 'DAMAGE'; target: Entity; amount: number; cause: DamageCause; source: Entity } // Target may be the player
+  | { type: 'SHIELD_BLOCKED'; target: Entity }
+  | { type: 'KILL'; entity: Entity; score: number } // Enemies and bosses
+  | { type: 'PICKUP'; kind: EntityType.SCRAP | EntityType.HEALTH_PICKUP; value: number }
+  | { type: 'ANOMALY_SPAWNED' } // A core appeared, a good moment to start preparing its encounter
+  | { type: 'ANOMALY_TRIGGERED' }
+  | { type: 'DOCKED' }
+  | { type: 'EFFECT_ENDED'; effect: ModifierId }
+  | { type: 'BOSS_SPAWNED'; bossId: BossId }
+  | { type: 'BOSS_PHASE'; bossId: BossId; phase: number }
+  | { type: 'PLAYER_DIED' }
+  | { type: 'RUN_ENDED'; reason: 'TIME_UP' | 'SURVIVED' } // The mode's goal was reached
+  | Extract<WaveEvent, { type: 'WAVE_STARTED' | 'WAVE_CLEARED' | 'LEVEL_UP' }>;
+
+export interface World {
+  arena: Arena;
+  mode: GameMode;
+  clock: GameClock;
+  rng: RandomState;
+  nextId: number;
+  player: Entity;
+  entities: Entity[];
+  score: number;
+  kills: number;
+  scrapCollected: number;
+  weapon: WeaponLoadout;
+  upgrades: ShipUpgrades;
+  waves: WaveState;
+  lastShotTime: number;
+  healthSpawnTimer: number;
+  lastAnomalyScore: number;
+  effects: TimedEffect[]; // Modifiers granted by anomalies
+  dash: DashState;
+  grid: SpatialGrid; // Rebuilt every tick, never needs saving
+}
+
+export interface WorldOptions {
+  arena: Arena;
+  seed: number;
+  mode?: GameMode; // Defaults to endless
+  clock?: GameClock; // Defaults to a fresh clock at time 0
+}
+
+export const createWorld = ({ arena, seed, mode = GameMode.ENDLESS, clock = createGameClock() }: WorldOptions): World => ({
+  arena,
+  mode,
+  clock,
+  rng: createRandomState(seed),
+  nextId: 0,
+  player: {
+    id: 'player',
+    type: EntityType.PLAYER,
+    pos: { x: arena.width / 2, y: arena.height / 2 },
+    vel: { x: 0, y: 0 },
+    radius: 20,
+    color: COLORS.PLAYER,
+    health: BASE_MAX_HEALTH,
+    maxHealth: BASE_MAX_HEALTH,
+    rotation: 0
+  },
+  entities: [],
+  score: 0,
+  kills: 0,
+  scrapCollected: 0,
+  weapon: createDefaultLoadout(),
+  upgrades: createDefaultUpgrades(),
+  waves: createWaveState(),
+  lastShotTime: 0,
+  healthSpawnTimer: 0,
+  lastAnomalyScore: 0,
+  effects: [],
+  dash: createDashState(createDefaultUpgrades()),
+  grid: createSpatialGrid()
+});
+
+// Everything needed to rebuild a world, as plain JSON-safe data
+export type WorldSnapshot = Omit<World, 'grid'>;
+
+export const snapshotWorld = (world: World): WorldSnapshot => {
+  const { grid, ...state } = world;
+  return JSON.parse(JSON.stringify(state));
+};
+
+// The screen may have changed size since the snapshot, so the caller can pass the current arena
+export const restoreWorld = (snapshot: WorldSnapshot, arena: Arena = snapshot.arena): World => {
+  const state: WorldSnapshot = JSON.parse(JSON.stringify(snapshot));
+  resetAccumulator(state.clock);
+  return { ...state, arena, grid: createSpatialGrid() };
+};
+
+// The parts of the ship the UI changes between ticks (anomaly choices, shop purchases)
+export interface ShipState {
+  health: number;
+  maxHealth: number;
+  weapon: WeaponLoadout;
+  upgrades: ShipUpgrades;
+}
+
+export const getShipState = (world: World): ShipState => ({
+  health: world.player.health,
+  maxHealth: world.player.maxHealth,
+  weapon: world.weapon,
+  upgrades: world.upgrades
+});
+
+// Returns whether anything actually changed, so callers only record real edits
+export const applyShipState = (world: World, ship: ShipState): boolean => {
+  if (JSON.stringify(getShipState(world)) === JSON.stringify(ship)) return false;
+  world.player.health = ship.health;
+  world.player.maxHealth = ship.maxHealth;
+  if (ship.weapon.type === WeaponType.CHARGE && world.weapon.type !== WeaponType.CHARGE) world.lastShotTime = world.clock.time; // Starts uncharged
+  world.weapon = ship.weapon;
+  world.upgrades = ship.upgrades;
+  return true;
+};
+
+// Anomalies hand these out between ticks too, so replays record them as commands.
+// Null seconds lasts for the rest of the run.
+export const applyTimedEffect = (world: World, type: ModifierId, seconds: number | null) => {
+  world.effects = addTimedEffect(world.effects, type, seconds === null ? null : seconds * 1000, world.clock.time);
+};
+
+// Game modules only give new entities an id prefix, the world makes it unique
+export const spawnEntity = (world: World, ...ents: Entity[]) => {
+  for (const ent of ents) {
+    ent.id = `${ent.id}-${world.nextId++}`;
+    world.entities.push(ent);
+  }
+};
+
+export const isEnemy = (ent: Entity) => ent.type === EntityType.ENEMY || ent.type === EntityType.BOSS;
+
+// Events after which the UI takes over, so the world shouldn't keep running behind it
+export const isInterruption = (event: WorldEvent) =>
+  event.type === 'ANOMALY_TRIGGERED' || event.type === 'DOCKED' || event.type === 'PLAYER_DIED' || event.type === 'RUN_ENDED';
+
+// Advances the world by `dt` ms of real time in fixed ticks. Stops after a tick that hands
+// control to the UI and drops the leftover time.
+export const stepWorld = (world: World, input: PlayerInput, dt: number): WorldEvent[] => {
+  const events: WorldEvent[] = [];
+  const ticks = accumulateFrame(world.clock, dt);
+  for (let t = 0; t < ticks; t++) {
+    const tickEvents = tickWorld(world, input);
+    events.push(...tickEvents);
+    if (tickEvents.some(isInterruption)) {
+      resetAccumulator(world.clock);
+      break;
+    }
+  }
+  return events;
+};
+
+// Runs exactly one fixed tick of the game rules
+export const tickWorld = (world: World, input: PlayerInput): WorldEvent[] => {
+  const events: WorldEvent[] = [];
+  const random = createRandom(world.rng);
+  const p = world.player;
+  const ship = getShipModifiers(world.upgrades);
+  const mode = MODES[world.mode];
+  const now = world.clock.time;
+
+  // Remember where everything was so rendering can interpolate towards the new positions
+  p.prevPos = { ...p.pos };
+  for (const ent of world.entities) ent.prevPos = { ...ent.pos };
+
+  // --- Modifiers ---
+  const expired = world.effects.filter(effect => effect.until !== null && effect.until <= now);
+  for (const effect of expired) events.push({ type: 'EFFECT_ENDED', effect: effect.type });
+  world.effects = world.effects.filter(effect => !expired.includes(effect));
+  const rules = getModifierRules(world.effects, now);
+
+  if (updateDash(world.dash, p, world.upgrades, !!input.dash, input.move, now)) events.push({ type: 'DASHED' });
+  movePlayer(world, input, ship.thrust);
+
+  // --- Shooting ---
+  const weaponStats = getWeaponStats(world.weapon);
+  const reload = weaponStats.fireRate * ship.fireRateMultiplier * (input.altFire ? VOLLEY_RELOAD : 1);
+  const held = input.altFire || input.fire !== false;
+  const shoot = (charge: number) => {
+    const fire = input.altFire ? fireVolley : fireWeapon;
+    spawnEntity(world, ...fire(world.weapon, p.pos, p.rotation, ship.damageMultiplier * rules.damageDealt, charge));
+    events.push({ type: 'PLAYER_FIRED', weapon: world.weapon.type });
+    world.lastShotTime = now;
+  };
+  if (world.weapon.type === WeaponType.CHARGE) {
+    // The charge cannon charges while fire is held, its fire rate being the time to a full charge.
+    // It fires by itself once full, or weaker when let go early. Time since the last shot is the
+    // charge, so it's kept at zero while fire isn't held.
+    const charge = Math.min(1, (now - world.lastShotTime) / reload);
+    if (held ? charge >= 1 : charge >= MIN_CHARGE) shoot(charge);
+    if (!held) world.lastShotTime = now;
+  } else if (held && now - world.lastShotTime > reload) {
+    shoot(1);
+  }
+
+  // --- Waves & Enemy Spawning ---
+  const enemiesAlive = world.entities.filter(isEnemy).length;
+  for (const event of updateWaveDirector(world.waves, enemiesAlive)) {
+    if (event.type === 'SPAWN_ENEMY') {
+      spawnWaveEnemy(world, random);
+    } else if (event.type === 'SPAWN_BOSS') {
+      const bossId = BOSS_ROTATION[(event.bossNumber - 1) % BOSS_ROTATION.length];
+      spawnEntity(world, createBoss(bossId, getDifficulty(world.waves.level), world.arena));
+      events.push({ type: 'BOSS_SPAWNED', bossId });
+    } else {
+      if (event.type === 'WAVE_CLEARED') world.score += event.bonus;
+      if (event.type === 'LEVEL_UP') spawnBeacon(world, random);
+      events.push(event);
+      if (event.type === 'WAVE_CLEARED' && mode.waveTarget !== null && event.wave >= mode.waveTarget) {
+        events.push({ type: 'RUN_ENDED', reason: 'SURVIVED' });
+      }
+    }
+  }
+
+  // --- Health Pickup Spawning ---
+  world.healthSpawnTimer += 1;
+  if (mode.healthPickups && !rules.noHealthPickups && world.healthSpawnTimer > HEALTH_SPAWN_TICKS) {
+    world.healthSpawnTimer = 0;
+    if (random() > 0.3) { // 70% chance to spawn when timer hits
+      spawnEntity(world, {
+        id: 'health',
+        type: EntityType.HEALTH_PICKUP,
+        pos: randomArenaPoint(world.arena, 50, random),
+        vel: { x: 0, y: 0 },
+        radius: 15,
+        color: COLORS.HEALTH,
+        health: 1,
+        maxHealth: 1,
+        rotation: 0,
+        value: 20 // Heal amount
+      });
+    }
+  }
+
+  // --- Anomalies ---
+  // A core to fly into every 500 score
+  if (world.score - world.lastAnomalyScore >= ANOMALY_SCORE_INTERVAL) {
+    world.lastAnomalyScore = world.score;
+    spawnEntity(world, createAnomalyCore(randomArenaPoint(world.arena, 50, random)));
+    events.push({ type: 'ANOMALY_SPAWNED' });
+  }
+
+  updateEntities(world, events, random, ship.magnetRadius, rules);
+  resolveCollisions(world, events, random, rules);
+
+  if (p.health <= 0) events.push({ type: 'PLAYER_DIED' });
+  else if (mode.timeLimit !== null && now + TICK_MS >= mode.timeLimit) events.push({ type: 'RUN_ENDED', reason: 'TIME_UP' });
+
+  removeDead(world.entities);
+  advanceTick(world.clock);
+  return events;
+};
+
+const movePlayer = (world: World, input: PlayerInput, thrust: number) => {
+  const p = world.player;
+  const acc = { ...input.move };
+
+  // Full thrust at most, analog sticks can ask for less
+  const len = Math.sqrt(acc.x * acc.x + acc.y * acc.y);
+  if (len > 1) {
+    acc.x /= len;
+    acc.y /= len;
+  }
+
+  p.vel.x += acc.x * thrust; // Acceleration factor
+  p.vel.y += acc.y * thrust;
+
+  // Friction
+  p.vel.x *= FRICTION;
+  p.vel.y *= FRICTION;
+
+  p.pos.x += p.vel.x;
+  p.pos.y += p.vel.y;
+
+  // Boundaries
+  p.pos.x = Math.max(p.radius, Math.min(world.arena.width - p.radius, p.pos.x));
+  p.pos.y = Math.max(p.radius, Math.min(world.arena.height - p.radius, p.pos.y));
+
+  if (input.aim !== undefined) p.rotation = input.aim;
+  else if (input.turn) p.rotation += input.turn * PLAYER_ROTATION_SPEED;
+};
+
+// Per-type behaviour. Removal is deferred: anything that dies is flagged and swept at the end of the tick
+const updateEntities = (world: World, events: WorldEvent[], random: Random, magnetRadius: number, rules: ModifierRules) => {
+  const p = world.player;
+  const now = world.clock.time;
+  rebuildGrid(world.grid, world.entities);
+  const enemies = world.entities.filter(isEnemy);
+  const count = world.entities.length; // Entities spawned this tick start moving next tick
+
+  for (let i = 0; i < count; i++) {
+    const ent = world.entities[i];
+    if (ent.dead) continue;
+
+    // Movement
+    const speed = isHostile(ent) ? rules.hostileSpeed : 1;
+    ent.pos.x += ent.vel.x * speed;
+    ent.pos.y += ent.vel.y * speed;
+
+    if (ent.type === EntityType.PARTICLE) {
+      if (ent.life) ent.life--;
+      if (!ent.life || ent.life <= 0) {
+        ent.dead = true;
+        continue;
+      }
+      ent.vel.x *= FRICTION;
+      ent.vel.y *= FRICTION;
+    } else if (ent.type === EntityType.BULLET) {
+      if (ent.life) ent.life--;
+      if (ent.life !== undefined && ent.life <= 0) {
+        ent.dead = true;
+        continue;
+      }
+
+      // Bosses count as enemies for targeting
+      if (ent.weapon === WeaponType.HOMING) {
+        steerHoming(ent, enemies);
+      }
+      if (rules.ricochet && ent.owner === 'PLAYER') bounceOffEdges(ent, world.arena);
+    } else if (ent.type === EntityType.ENEMY) {
+      const spawned = updateEnemy(ent, p, world.grid, now);
+      spawnEntity(world, ...spawned);
+      if (spawned.length > 0) events.push({ type: 'ENEMY_FIRED', source: ent });
+    } else if (ent.type === EntityType.BOSS) {
+      const result = updateBoss(ent, p, getDifficulty(world.waves.level), world.arena, now, random);
+      spawnEntity(world, ...result.spawned);
+      if (result.spawned.some(spawned => spawned.type === EntityType.BULLET)) events.push({ type: 'ENEMY_FIRED', source: ent });
+      if (result.phaseChanged) {
+        events.push({ type: 'BOSS_PHASE', bossId: ent.bossId!, phase: (ent.phase ?? 0) + 1 });
+      }
+
+      // Sweeping laser burns while the player stays in it
+      const beamDamage = getBeamDamage(ent, p);
+      if (beamDamage > 0) damagePlayer(world, events, rules, beamDamage, 'BEAM', ent);
+    } else if (ent.type === EntityType.SCRAP) {
+      // Magnet effect if close, a gravity well reaches everywhere but pulls gently
+      const dist = Math.hypot(p.pos.x - ent.pos.x, p.pos.y - ent.pos.y);
+      if (dist < magnetRadius) {
+        ent.pos.x += (p.pos.x - ent.pos.x) * 0.1;
+        ent.pos.y += (p.pos.y - ent.pos.y) * 0.1;
+      } else if (rules.scrapGravity) {
+        ent.pos.x += (p.pos.x - ent.pos.x) * 0.02;
+        ent.pos.y += (p.pos.y - ent.pos.y) * 0.02;
+      }
+    } else if (ent.type === EntityType.ANOMALY_CORE) {
+      // Pulsate
+      ent.radius = 25 + Math.sin(now * 0.005) * 5;
+    } else if (ent.type === EntityType.DOCKING_BEACON) {
+      ent.rotation += 0.02;
+    } else if (ent.type === EntityType.HEALTH_PICKUP) {
+      // Pulsate
+      ent.radius = 15 + Math.sin(now * 0.005) * 2;
+    }
+  }
+};
+
+const resolveCollisions = (world: World, events: WorldEvent[], random: Random, rules: ModifierRules) => {
+  const p = world.player;
+  const dashDamage = isDashing(world.dash, world.clock.time) ? getShipModifiers(world.upgrades).dashDamage : 0;
+  rebuildGrid(world.grid, world.entities);
+
+  // Player bullets vs enemies and bosses
+  forEachCollision(world.grid, world.entities, CollisionLayer.PLAYER_BULLET, CollisionLayer.ENEMY, (bullet, target) => {
+    if (bullet.hitIds?.includes(target.id)) return; // Piercing shot already hit this one
+    if (isShieldBlocking(target, bullet) && !(bullet.weapon === WeaponType.CHARGE && bullet.pierce)) {
+      // Deflected by the frontal shield, only a fully charged cannon shot punches through
+      createParticles(world, random, bullet.pos, 2, '#38bdf8');
+      events.push({ type: 'SHIELD_BLOCKED', target });
+      bullet.dead = true;
+      return true;
+    }
+
+    const amount = bullet.damage ?? 10;
+    target.health -= amount;
+    events.push({ type: 'DAMAGE', target, amount, cause: 'BULLET', source: bullet });
+    if (target.health <= 0) {
+      target.dead = true;
+      if (target.type === EntityType.BOSS) defeatBoss(world, events, random, target);
+      else destroyEnemy(world, events, random, target);
+    }
+
+    if (bullet.pierce && bullet.pierce > 0) {
+      bullet.pierce--;
+      bullet.hitIds?.push(target.id);
+      return;
+    }
+    bullet.dead = true; // Remove bullet
+    return true;
+  });
+
+  // Everything that can touch the player
+  const touching = queryGrid(world.grid, p.pos, p.radius, CollisionLayer.ENEMY | CollisionLayer.ENEMY_BULLET | CollisionLayer.PICKUP);
+  for (const ent of touching) {
+    if (ent.type === EntityType.BULLET) {
+      damagePlayer(world, events, rules, ent.damage ?? 5, 'BULLET', ent); // Enemy bullet damage
+      createParticles(world, random, ent.pos, 3, COLORS.PLAYER);
+      ent.dead = true;
+    } else if (dashDamage > 0 && isEnemy(ent)) {
+      // Ram prow: each enemy takes the hit once per dash, and the dash's i-frames cover the ship
+      if (world.dash.hitIds.includes(ent.id)) continue;
+      world.dash.hitIds.push(ent.id);
+      ent.health -= dashDamage;
+      events.push({ type: 'DAMAGE', target: ent, amount: dashDamage, cause: 'DASH', source: p });
+      createParticles(world, random, ent.pos, 5, COLORS.PLAYER);
+      if (ent.health <= 0) {
+        ent.dead = true;
+        if (ent.type === EntityType.BOSS) defeatBoss(world, events, random, ent);
+        else destroyEnemy(world, events, random, ent);
+      }
+    } else if (ent.type === EntityType.ENEMY) {
+      damagePlayer(world, events, rules, ENEMIES[ent.archetype ?? EnemyArchetype.GRUNT].contactDamage, 'CONTACT', ent);
+      createParticles(world, random, ent.pos, 5, COLORS.PLAYER);
+      ent.dead = true;
+    } else if (ent.type === EntityType.BOSS) {
+      // Ramming the boss hurts and bounces the player away
+      const away = Math.atan2(p.pos.y - ent.pos.y, p.pos.x - ent.pos.x);
+      p.vel.x = Math.cos(away) * 10;
+      p.vel.y = Math.sin(away) * 10;
+      damagePlayer(world, events, rules, BOSSES[ent.bossId!].contactDamage, 'CONTACT', ent);
+      createParticles(world, random, p.pos, 5, COLORS.PLAYER);
+    } else if (ent.type === EntityType.SCRAP) {
+      const value = Math.round((ent.value || 1) * rules.scrapMultiplier);
+      world.scrapCollected += value;
+      events.push({ type: 'PICKUP', kind: EntityType.SCRAP, value });
+      ent.dead = true;
+    } else if (ent.type === EntityType.ANOMALY_CORE) {
+      events.push({ type: 'ANOMALY_TRIGGERED' });
+      ent.dead = true;
+    } else if (ent.type === EntityType.DOCKING_BEACON) {
+      events.push({ type: 'DOCKED' });
+      ent.dead = true;
+    } else if (ent.type === EntityType.HEALTH_PICKUP) {
+      const value = ent.value || 20;
+      p.health = Math.min(p.maxHealth, p.health + value);
+      events.push({ type: 'PICKUP', kind: EntityType.HEALTH_PICKUP, value });
+      createParticles(world, random, ent.pos, 10, COLORS.HEALTH); // Green particles
+      ent.dead = true;
+    }
+  }
+};
+
+const damagePlayer = (world: World, events: WorldEvent[], rules: ModifierRules, base: number, cause: DamageCause, source: Entity) => {
+  if (rules.invulnerable) return; // Anomaly shield soaks everything
+  if (isDashInvulnerable(world.dash, world.clock.time)) return;
+  const amount = base * rules.damageTaken;
+  world.player.health -= amount;
+  events.push({ type: 'DAMAGE', target: world.player, amount, cause, source });
+};
+
+export const summarizeRun = (world: World, end: RunEnd, cause: string): RunSummary => ({
+  mode: world.mode,
+  end,
+  score: world.score,
+  wave: world.waves.wave,
+  level: world.waves.level,
+  duration: Math.round(world.clock.time / 1000),
+  kills: world.kills,
+  scrapCollected: world.scrapCollected,
+  cause
+});
+
+// Readable name for what dealt a hit, used as the cause of death in the run history
+export const describeDamage = (event: Extract<WorldEvent, { type: 'DAMAGE' }>): string => {
+  const { cause, source } = event;
+  if (cause === 'BEAM') return `${BOSSES[source.bossId!].name} laser`;
+  if (cause === 'CONTACT') {
+    return source.type === EntityType.BOSS
+      ? `Rammed the ${BOSSES[source.bossId!].name}`
+      : `Collided with a ${ENEMIES[source.archetype ?? EnemyArchetype.GRUNT].name}`;
+  }
+  return 'Enemy fire';
+};
+
+const randomArenaPoint = (arena: Arena, margin: number, random: Random): Vector2 => ({
+  x: random() * (arena.width - margin * 2) + margin,
+  y: random() * (arena.height - margin * 2) + margin
+});
+
+const createScrap = (pos: Vector2, vel: Vector2, value: number): Entity => ({
+  id: 'scrap',
+  type: EntityType.SCRAP,
+  pos,
+  vel,
+  radius: 8,
+  color: COLORS.SCRAP,
+  health: 1,
+  maxHealth: 1,
+  rotation: 0,
+  value
+});
+
+const createAnomalyCore = (pos: Vector2): Entity => ({
+  id: 'anomaly',
+  type: EntityType.ANOMALY_CORE,
+  pos,
+  vel: { x: 0, y: 0 },
+  radius: 25,
+  color: COLORS.ANOMALY,
+  health: 1,
+  maxHealth: 1,
+  rotation: 0
+});
+
+// Spawns the next enemy (or group, for swarm drones) of the current wave just off screen
+const spawnWaveEnemy = (world: World, random: Random) => {
+  const { width, height } = world.arena;
+  const difficulty = getDifficulty(world.waves.level);
+  const archetype = pickArchetype(difficulty, random);
+  const edge = Math.floor(random() * 4); // 0: top, 1: right, 2: bottom, 3: left
+  let ex = 0, ey = 0;
+  if (edge === 0) { ex = random() * width; ey = -30; }
+  else if (edge === 1) { ex = width + 30; ey = random() * height; }
+  else if (edge === 2) { ex = random() * width; ey = height + 30; }
+  else { ex = -30; ey = random() * height; }
+
+  const now = world.clock.time;
+  for (let i = 0; i < ENEMIES[archetype].spawnGroup; i++) {
+    const offset = i === 0 ? { x: 0, y: 0 } : { x: (random() - 0.5) * 60, y: (random() - 0.5) * 60 };
+    spawnEntity(world, createEnemy(archetype, { x: ex + offset.x, y: ey + offset.y }, difficulty, now, random));
+  }
+};
+
+// Explosion, scrap drop and score for a destroyed enemy (splitters also break apart)
+const destroyEnemy = (world: World, events: WorldEvent[], random: Random, ent: Entity) => {
+  const def = ENEMIES[ent.archetype ?? EnemyArchetype.GRUNT];
+  createParticles(world, random, ent.pos, 8, ent.color);
+  for (let k = 0; k < def.scrapDrops; k++) {
+    spawnEntity(world, createScrap({ ...ent.pos }, { x: random() - 0.5, y: random() - 0.5 }, def.scrapValue));
+  }
+
+  const score = ent.value || 10;
+  world.score += score;
+  world.kills++;
+  events.push({ type: 'KILL', entity: ent, score });
+  spawnEntity(world, ...splitEnemy(ent, world.clock.time, random));
+};
+
+// Big explosion, a scrap payout and a guaranteed anomaly core
+const defeatBoss = (world: World, events: WorldEvent[], random: Random, boss: Entity) => {
+  const def = BOSSES[boss.bossId!];
+  createParticles(world, random, boss.pos, 40, boss.color);
+  for (let k = 0; k < def.scrapDrops; k++) {
+    const angle = (k / def.scrapDrops) * Math.PI * 2;
+    spawnEntity(world, createScrap(
+      { x: boss.pos.x + Math.cos(angle) * boss.radius, y: boss.pos.y + Math.sin(angle) * boss.radius },
+      { x: Math.cos(angle) * 0.5, y: Math.sin(angle) * 0.5 },
+      def.scrapValue
+    ));
+  }
+  spawnEntity(world, createAnomalyCore({ ...boss.pos }));
+  events.push({ type: 'ANOMALY_SPAWNED' });
+
+  const score = boss.value || 1000;
+  world.score += score;
+  world.kills++;
+  events.push({ type: 'KILL', entity: boss, score });
+};
+
+// Docking beacon that opens the scrap shop, only one at a time
+const spawnBeacon = (world: World, random: Random) => {
+  if (world.entities.some(e => e.type === EntityType.DOCKING_BEACON)) return;
+  spawnEntity(world, {
+    id: 'beacon',
+    type: EntityType.DOCKING_BEACON,
+    pos: randomArenaPoint(world.arena, 100, random),
+    vel: { x: 0, y: 0 },
+    radius: 30,
+    color: COLORS.BEACON,
+    health: 1,
+    maxHealth: 1,
+    rotation: 0
+  });
+};
+
+// Ricochet modifier: player bullets reflect off the arena walls instead of flying off screen
+const bounceOffEdges = (ent: Entity, arena: Arena) => {
+  if (ent.pos.x < 0 || ent.pos.x > arena.width) {
+    ent.vel.x = -ent.vel.x;
+    ent.pos.x = Math.max(0, Math.min(arena.width, ent.pos.x));
+  }
+  if (ent.pos.y < 0 || ent.pos.y > arena.height) {
+    ent.vel.y = -ent.vel.y;
+    ent.pos.y = Math.max(0, Math.min(arena.height, ent.pos.y));
+  }
+  ent.rotation = Math.atan2(ent.vel.y, ent.vel.x);
+};
+
+const createParticles = (world: World, random: Random, pos: Vector2, count: number, color: string) => {
+  for (let i = 0; i < count; i++) {
+    spawnEntity(world, {
+      id: 'part',
+      type: EntityType.PARTICLE,
+      pos: { ...pos },
+      vel: { x: (random() - 0.5) * 10, y: (random() - 0.5) * 10 },
+      radius: random() * 3 + 1,
+      color,
+      health: 1,
+      maxHealth: 1,
+      rotation: 0,
+      life: 30 + random() * 20
+    });
+  }
+};
@@ -0,0 +1,74 @@
+// Collision broadphase benchmark: spatial grid vs the old every-bullet-against-every-enemy loop.
+// Run with `npm run bench`. Only imports modules that don't touch the DOM.
+
+import { Entity, EntityType } from '../types';
+import { CollisionLayer, circlesOverlap, createSpatialGrid, forEachCollision, rebuildGrid } from '../game/collision';
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+const ROUNDS = 60; // One second of ticks
+
+const makeEntity = (i: number, type: EntityType, radius: number, owner?: 'PLAYER' | 'ENEMY'): Entity => ({
+  id: `bench-${i}`,
+  type,
+  pos: { x: Math.random() * WIDTH, y: Math.random() * HEIGHT },
+  vel: { x: 0, y: 0 },
+  radius,
+  color: '#fff',
+  health: 1,
+  maxHealth: 1,
+  rotation: 0,
+  owner
+});
+
+// Roughly the mix a late wave produces: mostly bullets, a fair number of enemies, some pickups
+const populate = (total: number): Entity[] => {
+  const entities: Entity[] = [];
+  for (let i = 0; i < total; i++) {
+    const roll = i % 10;
+    if (roll < 4) entities.push(makeEntity(i, EntityType.BULLET, 4, 'PLAYER'));
+    else if (roll < 7) entities.push(makeEntity(i, EntityType.BULLET, 5, 'ENEMY'));
+    else if (roll < 9) entities.push(makeEntity(i, EntityType.ENEMY, 15));
+    else entities.push(makeEntity(i, EntityType.SCRAP, 8));
+  }
+  return entities;
+};
+
+const naive = (entities: Entity[]) => {
+  let hits = 0;
+  for (const bullet of entities) {
+    if (bullet.type !== EntityType.BULLET || bullet.owner === 'ENEMY') continue;
+    for (const enemy of entities) {
+      if (enemy.type === EntityType.ENEMY && circlesOverlap(bullet, enemy)) hits++;
+    }
+  }
+  return hits;
+};
+
+const grid = createSpatialGrid();
+const withGrid = (entities: Entity[]) => {
+  let hits = 0;
+  rebuildGrid(grid, entities);
+  forEachCollision(grid, entities, CollisionLayer.PLAYER_BULLET, CollisionLayer.ENEMY, () => {
+    hits++;
+  });
+  return hits;
+};
+
+const time = (fn: () => number) => {
+  let result = 0;
+  const start = performance.now();
+  for (let r = 0; r < ROUNDS; r++) result = fn();
+  return { ms: (performance.now() - start) / ROUNDS, hits: result };
+};
+
+console.log(`Average per tick over ${ROUNDS} ticks on a ${WIDTH}x${HEIGHT} field\n`);
+console.log('entities   naive ms   grid ms   speedup   hits (naive/grid)');
+for (const total of [500, 1000, 2500, 5000, 10000]) {
+  const entities = populate(total);
+  const a = time(() => naive(entities));
+  const b = time(() => withGrid(entities));
+  console.log(
+    `${String(total).padStart(8)}   ${a.ms.toFixed(3).padStart(8)}   ${b.ms.toFixed(3).padStart(7)}   ${(a.ms / b.ms).toFixed(1).padStart(6)}x   ${a.hits}/${b.hits}`
+  );
+}
@@ -0,0 +1,71 @@
+import { AnomalyEffectType, AnomalyEvent, AnomalyProviderId, Settings, WeaponType } from "../types";
+import { getEffectBudget } from "./anomalyValidator";
+import { MODIFIERS, MODIFIER_IDS } from "../game/effects";
+
+// What every anomaly source implements. Providers may throw or return junk; the anomaly
+// service validates what comes back and falls back to the offline generator.
+
+export interface AnomalyRequest {
+  level: number;
+  scrap: number; // Current scrap (currency)
+  signal?: AbortSignal; // Aborted when the run the anomaly was for is over
+}
+
+export interface AnomalyProvider {
+  id: AnomalyProviderId;
+  name: string;
+  description: string;
+  isAvailable: (settings: Settings) => boolean; // e.g. has an API key or a server URL
+  generate: (request: AnomalyRequest, settings: Settings) => Promise<AnomalyEvent>;
+}
+
+// The game master brief shared by the LLM-backed providers
+export const buildAnomalyPrompt = ({ level, scrap }: AnomalyRequest) => {
+  const budget = (effect: AnomalyEffectType) => getEffectBudget(effect, level).max;
+  return `
+      You are the AI Game Master for a sci-fi space shooter. The player has discovered a mysterious cosmic anomaly.
+      Current Level: ${level}.
+      Current Scrap (Currency): ${scrap}.
+
+      Generate a unique, mysterious, or dangerous short encounter description.
+      Provide 2 distinct choices for the player to interact with it.
+      One choice should be risky but rewarding, the other safe or strategic.
+
+      Each choice has one or more 'outcomes', one of which is rolled when it is picked. Give each outcome a
+      'chance' between 0 and 1 (an option's chances add up to 1, e.g. 0.6 and 0.4), a short 'description' of
+      what happens, and a list of 'effects' that all apply together (an empty list means nothing happens).
+      The 'effect' field must be one of: 'HEAL', 'DAMAGE', 'SCRAP', 'WEAPON', 'SHIELD', 'SLOW_MO', 'MODIFIER', 'NOTHING'.
+      The 'value' field should be a number representing the magnitude (e.g., 20 health, 50 scrap).
+      For 'WEAPON' effects, 'value' is the weapon tier from 1 to 5, and 'weaponType' names the weapon
+      the player gets: ${Object.values(WeaponType).map(type => `'${type}'`).join(', ')}. Leave 'weaponType' out to
+      upgrade the player's current weapon instead.
+      'SHIELD' (the ship can't be hurt) and 'SLOW_MO' (enemies and their shots crawl) last 'value' seconds.
+      'MODIFIER' puts a buff, debuff or mutator on the run for 'value' seconds, named by its 'modifier' id:
+      ${MODIFIER_IDS.map(id => `'${id}' (${MODIFIERS[id].kind.toLowerCase()}: ${MODIFIERS[id].description})`).join(', ')}.
+      A mutator may be given a 'value' of 0 to last for the rest of the run.
+      At this level keep 'HEAL' at or below ${budget('HEAL')}, 'DAMAGE' at or below ${budget('DAMAGE')},
+      'SCRAP' at or below ${budget('SCRAP')}, weapon tiers at or below ${budget('WEAPON')}, 'SHIELD' at or below
+      ${budget('SHIELD')} seconds, 'SLOW_MO' at or below ${budget('SLOW_MO')} seconds and modifiers at or below ${budget('MODIFIER')} seconds.
+      Exactly one choice should risk 'DAMAGE', a debuff or a mutator, or chase a big reward; the other must
+      do none of those.
+
+      Optionally the encounter can go deeper: list follow-up 'stages', each with an 'id', a 'description' and
+      2 options of its own, and set an outcome's 'next' to a stage id to continue there. An outcome may only
+      lead to a stage further down the list. Most encounters need no stages at all.
+    `;
+};
+
+// For providers without structured output, the shape has to be spelled out in the prompt
+export const ANOMALY_JSON_FORMAT = `
+      Reply with a single JSON object and nothing else, shaped like:
+      {"title": string, "description": string, "options": [Option], "stages"?: [{"id": string, "description": string,
+      "options": [Option]}]}
+      where Option is {"text": string, "outcomes": [{"chance": number, "description": string, "next"?: string,
+      "effects": [{"effect": string, "value": number, "weaponType"?: string, "modifier"?: string}]}]}
+    `;
+
+// Models sometimes wrap JSON in a markdown code fence
+export const parseAnomalyJson = (text: string): AnomalyEvent => {
+  const json = text.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '').trim();
+  return JSON.parse(json) as AnomalyEvent;
+};
@@ -0,0 +1,92 @@
+import { AnomalyEvent, Settings } from "../types";
+import { AnomalyRequest } from "./anomalyProvider";
+import { generateAnomaly } from "./anomalyService";
+
+// Anomalies are generated in the background as soon as a core appears, so flying into it opens
+// the encounter straight away instead of waiting on the network. Ready events are pooled by
+// level and titles aren't repeated within a run. Resetting for a new run aborts whatever is
+// still in flight and drops anything it would have produced.
+
+const POOL_SIZE = 2; // Ready anomalies kept per level
+const MAX_DEDUPE_ATTEMPTS = 3; // After this many repeats a duplicate title is accepted anyway
+
+export interface AnomalyQueue {
+  pool: Map<number, AnomalyEvent[]>; // Ready to show, by level
+  pending: Map<number, Promise<void>>; // Pool refills in flight, by level
+  seenTitles: Set<string>; // Shown or queued this run
+  controller: AbortController; // Aborted when the run ends
+}
+
+export const createAnomalyQueue = (): AnomalyQueue => ({
+  pool: new Map(),
+  pending: new Map(),
+  seenTitles: new Set(),
+  controller: new AbortController()
+});
+
+export const resetAnomalyQueue = (queue: AnomalyQueue) => {
+  queue.controller.abort();
+  queue.controller = new AbortController();
+  queue.pool.clear();
+  queue.pending.clear();
+  queue.seenTitles.clear();
+};
+
+const titleKey = (anomaly: AnomalyEvent) => anomaly.title.trim().toLowerCase();
+
+// Resolves to null if the run was reset while waiting
+const fetchUnique = async (queue: AnomalyQueue, request: AnomalyRequest, settings: Settings): Promise<AnomalyEvent | null> => {
+  const { signal } = queue.controller;
+  for (let attempt = 1; ; attempt++) {
+    const anomaly = await generateAnomaly({ ...request, signal }, settings);
+    if (signal.aborted) return null;
+    if (!queue.seenTitles.has(titleKey(anomaly)) || attempt >= MAX_DEDUPE_ATTEMPTS) {
+      queue.seenTitles.add(titleKey(anomaly));
+      return anomaly;
+    }
+    console.warn(`Anomaly "${anomaly.title}" already came up this run, asking again`);
+  }
+};
+
+// Starts filling the pool for a level unless it is already full or being filled
+export const prefetchAnomaly = (queue: AnomalyQueue, request: AnomalyRequest, settings: Settings) => {
+  const { level } = request;
+  if ((queue.pool.get(level)?.length ?? 0) >= POOL_SIZE || queue.pending.has(level)) return;
+
+  const controller = queue.controller;
+  const fill = fetchUnique(queue, request, settings).then(anomaly => {
+    if (!anomaly || controller.signal.aborted) return;
+    queue.pool.set(level, [...(queue.pool.get(level) ?? []), anomaly]);
+  }).finally(() => {
+    // A reset may have replaced the map entry with a refill for the new run
+    if (queue.pending.get(level) === fill) queue.pending.delete(level);
+  });
+  queue.pending.set(level, fill);
+};
+
+// The best ready anomaly for the level: its own, or failing that the closest lower level's
+// (budgets only grow with level, so those are still in range). Pools for older levels are dropped.
+const takeReady = (queue: AnomalyQueue, level: number): AnomalyEvent | null => {
+  const best = [...queue.pool.keys()]
+    .filter(l => l <= level && queue.pool.get(l)!.length > 0)
+    .sort((a, b) => b - a)[0];
+  const anomaly = best === undefined ? null : queue.pool.get(best)!.shift() ?? null;
+  for (const l of [...queue.pool.keys()]) {
+    if (l < level - 1) queue.pool.delete(l);
+  }
+  return anomaly;
+};
+
+// Resolves to null if the run was reset while waiting
+export const takeAnomaly = async (queue: AnomalyQueue, request: AnomalyRequest, settings: Settings): Promise<AnomalyEvent | null> => {
+  const controller = queue.controller;
+  let anomaly = takeReady(queue, request.level);
+  if (!anomaly && queue.pending.has(request.level)) {
+    await queue.pending.get(request.level);
+    if (controller.signal.aborted) return null;
+    anomaly = takeReady(queue, request.level);
+  }
+  anomaly ??= await fetchUnique(queue, request, settings);
+  if (anomaly && !controller.signal.aborted) prefetchAnomaly(queue, request, settings); // Top the pool back up
+  return controller.signal.aborted ? null : anomaly;
+};
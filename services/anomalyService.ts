@@ -0,0 +1,64 @@
+import { AnomalyEvent, AnomalyProviderId, Settings } from "../types";
+import { AnomalyProvider, AnomalyRequest } from "./anomalyProvider";
+import { validateAnomaly } from "./anomalyValidator";
+import { geminiProvider } from "./geminiService";
+import { offlineProvider } from "./offlineAnomalyService";
+import { openAiProvider } from "./openAiService";
+
+// Picks the anomaly source from the settings. Responses are validated and repaired; one that
+// can't be is asked for again. Anything that fails, hangs or isn't set up falls back to the
+// offline generator, whose hand-written content pack always works.
+
+const REQUEST_TIMEOUT_MS = 12000;
+const MAX_ATTEMPTS = 2;
+
+export const ANOMALY_PROVIDERS: Record<AnomalyProviderId, AnomalyProvider> = {
+  GEMINI: geminiProvider,
+  OFFLINE: offlineProvider,
+  OPENAI: openAiProvider
+};
+
+export const ANOMALY_PROVIDER_IDS = Object.keys(ANOMALY_PROVIDERS) as AnomalyProviderId[];
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+export const generateAnomaly = async (request: AnomalyRequest, settings: Settings): Promise<AnomalyEvent> => {
+  const provider = ANOMALY_PROVIDERS[settings.anomalyProvider] ?? offlineProvider;
+
+  if (provider !== offlineProvider) {
+    if (!provider.isAvailable(settings)) {
+      console.warn(`${provider.name} isn't set up, using offline anomalies`);
+    } else {
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        try {
+          const raw = await withTimeout(provider.generate(request, settings), REQUEST_TIMEOUT_MS);
+          const { anomaly, issues } = validateAnomaly(raw, request.level);
+          if (anomaly) {
+            if (issues.length > 0) console.warn(`Repaired anomaly from ${provider.name}:`, issues);
+            return anomaly;
+          }
+          console.warn(`Rejected anomaly from ${provider.name} (attempt ${attempt}/${MAX_ATTEMPTS}):`, issues, raw);
+        } catch (error) {
+          if (request.signal?.aborted) break; // Nobody is waiting for it any more
+          // Unreadable JSON is worth another go, network and key problems won't fix themselves
+          if (error instanceof SyntaxError) {
+            console.warn(`Rejected anomaly from ${provider.name} (attempt ${attempt}/${MAX_ATTEMPTS}): unreadable JSON`, error.message);
+            continue;
+          }
+          console.error(`${provider.name} generation failed:`, error);
+          break;
+        }
+      }
+      console.warn(`No usable anomaly from ${provider.name}, using offline anomalies`);
+    }
+  }
+
+  return offlineProvider.generate(request, settings);
+};
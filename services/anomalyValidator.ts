@@ -0,0 +1,276 @@
+import { AnomalyEffect, AnomalyEffectType, AnomalyEvent, AnomalyOption, AnomalyOutcome, AnomalyStage, ModifierId, WeaponType } from "../types";
+import { MODIFIERS, MODIFIER_IDS, getEffectModifier } from "../game/effects";
+
+// Model output can't be trusted: it may be missing fields, have extra options, promise
+// 100000 scrap or send the player in circles between stages. Everything a provider returns goes
+// through here before the game sees it. Small problems are repaired, anything that can't be
+// saved is rejected so the caller can ask again. Every fix and rejection is reported, which is
+// what the prompt gets tuned from.
+
+const EFFECTS: AnomalyEffectType[] = ['HEAL', 'DAMAGE', 'SCRAP', 'WEAPON', 'NOTHING', 'SHIELD', 'SLOW_MO', 'MODIFIER'];
+const OPTION_COUNT = 2;
+const MAX_OUTCOMES = 4; // Per option
+const MAX_EFFECTS = 3; // Per outcome
+const MAX_STAGES = 4; // Besides the opening one
+const MAX_TITLE_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 400;
+const MAX_OPTION_TEXT_LENGTH = 80;
+const RISKY_REWARD_SHARE = 0.5; // A reward this far up its budget counts as the risky pick
+
+export interface EffectBudget {
+  min: number;
+  max: number;
+}
+
+// How big each effect may be at a given sector level. Modifiers also have their own cap
+export const getEffectBudget = (effect: AnomalyEffectType, level: number, modifier?: ModifierId): EffectBudget => {
+  const l = Math.max(1, level);
+  switch (effect) {
+    case 'HEAL': return { min: 5, max: 25 + 10 * l };
+    case 'DAMAGE': return { min: 5, max: 20 + 8 * l };
+    case 'SCRAP': return { min: 10, max: 50 + 40 * l };
+    case 'WEAPON': return { min: 1, max: Math.min(5, 2 + Math.floor(l / 2)) }; // Weapon tier
+    case 'SHIELD': return { min: 3, max: Math.min(12, 4 + 2 * l) }; // Seconds
+    case 'SLOW_MO': return { min: 3, max: Math.min(15, 5 + 2 * l) }; // Seconds
+    case 'MODIFIER': return { min: 5, max: Math.min(modifier ? MODIFIERS[modifier].maxSeconds : 30, 10 + 5 * l) }; // Seconds
+    case 'NOTHING': return { min: 0, max: 0 };
+  }
+};
+
+const effectsOf = (option: AnomalyOption) => option.outcomes.flatMap(outcome => outcome.effects);
+
+// Damage, debuffs and mutators all cost the player something
+const isHarmful = (effect: AnomalyEffect) => {
+  const modifier = getEffectModifier(effect);
+  return effect.effect === 'DAMAGE' || (modifier !== null && MODIFIERS[modifier].kind !== 'BUFF');
+};
+
+// Anything harmful is a gamble, and so is chasing a reward near the top of its budget
+export const isRiskyOption = (option: AnomalyOption, level: number) =>
+  effectsOf(option).some(effect =>
+    isHarmful(effect) ||
+    (effect.effect !== 'NOTHING' && effect.value >= getEffectBudget(effect.effect, level, effect.modifier).max * RISKY_REWARD_SHARE));
+
+export const isSafeOption = (option: AnomalyOption) => !effectsOf(option).some(isHarmful);
+
+export interface AnomalyValidation {
+  anomaly: AnomalyEvent | null; // Null when it had to be rejected
+  issues: string[]; // Everything that was repaired, plus the rejection reason if any
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = <T extends string>(list: readonly T[], value: unknown): value is T => list.includes(value as T);
+
+const cleanText = (value: unknown, maxLength: number) =>
+  typeof value === 'string' ? value.trim().replace(/\s+/g, ' ').slice(0, maxLength) : '';
+
+const sanitizeEffect = (raw: unknown, label: string, level: number, issues: string[]): AnomalyEffect | null => {
+  if (!isRecord(raw)) {
+    issues.push(`${label} has an effect that is not an object`);
+    return null;
+  }
+
+  const effect = typeof raw.effect === 'string' ? raw.effect.toUpperCase() : raw.effect;
+  if (!isOneOf(EFFECTS, effect)) {
+    issues.push(`${label} has unknown effect ${JSON.stringify(raw.effect)}`);
+    return null;
+  }
+
+  let modifier: ModifierId | undefined;
+  if (effect === 'MODIFIER') {
+    const named = typeof raw.modifier === 'string' ? raw.modifier.toUpperCase() : raw.modifier;
+    if (!isOneOf(MODIFIER_IDS, named)) {
+      issues.push(`${label} has unknown modifier ${JSON.stringify(raw.modifier)}`);
+      return null;
+    }
+    modifier = named;
+    // The shield and slow-mo shorthands have budgets of their own
+    if (modifier === 'SHIELD' || modifier === 'SLOW_MO') return sanitizeEffect({ ...raw, effect: modifier }, label, level, issues);
+  }
+
+  const given = effect === 'NOTHING' ? 0 : typeof raw.value === 'string' ? Number(raw.value) : raw.value;
+  if (typeof given !== 'number' || !Number.isFinite(given)) {
+    issues.push(`${label} ${effect} has no numeric value`);
+    return null;
+  }
+  // Only mutators may last the whole run, which is what 0 seconds means
+  const wholeRun = modifier !== undefined && given === 0 && MODIFIERS[modifier].kind === 'MUTATOR';
+  const budget = getEffectBudget(effect, level, modifier);
+  const value = wholeRun ? 0 : Math.round(Math.min(budget.max, Math.max(budget.min, given)));
+  if (value !== given) issues.push(`${label} ${modifier ?? effect} value ${given} clamped to ${value}`);
+
+  const sanitized: AnomalyEffect = { effect, value };
+  if (modifier) sanitized.modifier = modifier;
+  if (effect === 'WEAPON' && raw.weaponType !== undefined && raw.weaponType !== null) {
+    if (isOneOf(Object.values(WeaponType), raw.weaponType)) sanitized.weaponType = raw.weaponType;
+    else issues.push(`${label} has unknown weapon ${JSON.stringify(raw.weaponType)}, upgrading the current one instead`);
+  }
+  return sanitized;
+};
+
+// Accepts a list of effects or the older single effect/value pair on the outcome itself
+const sanitizeOutcome = (raw: unknown, label: string, level: number, stageIds: string[], issues: string[]): AnomalyOutcome | null => {
+  if (!isRecord(raw)) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+
+  let rawEffects: unknown[] = Array.isArray(raw.effects) ? raw.effects : raw.effect !== undefined ? [raw] : [];
+  if (rawEffects.length > MAX_EFFECTS) {
+    issues.push(`${label} has ${rawEffects.length} effects, keeping the first ${MAX_EFFECTS}`);
+    rawEffects = rawEffects.slice(0, MAX_EFFECTS);
+  }
+  const sanitized = rawEffects.map(effect => sanitizeEffect(effect, label, level, issues));
+  if (sanitized.length > 0 && sanitized.every(effect => effect === null)) {
+    issues.push(`${label} has no usable effects`);
+    return null;
+  }
+  // NOTHING is just an outcome without effects
+  const effects = sanitized.filter((effect): effect is AnomalyEffect => effect !== null && effect.effect !== 'NOTHING');
+
+  const description = cleanText(raw.description ?? raw.outcomeDescription, MAX_DESCRIPTION_LENGTH);
+  if (!description) issues.push(`${label} has no description`);
+
+  const outcome: AnomalyOutcome = { chance: NaN, description, effects };
+  const chance = typeof raw.chance === 'string' ? Number(raw.chance) : raw.chance;
+  // Some models answer in percent
+  if (typeof chance === 'number' && Number.isFinite(chance) && chance > 0) outcome.chance = chance > 1 ? chance / 100 : chance;
+
+  if (raw.next !== undefined && raw.next !== null) {
+    if (isOneOf(stageIds, raw.next)) outcome.next = raw.next;
+    else issues.push(`${label} leads to unknown or earlier stage ${JSON.stringify(raw.next)}, ending there instead`);
+  }
+  return outcome;
+};
+
+// Outcomes without a chance split what's left between them, then everything is scaled to add up to 1
+const normalizeChances = (outcomes: AnomalyOutcome[], label: string, issues: string[]) => {
+  const given = outcomes.filter(outcome => !Number.isNaN(outcome.chance));
+  const givenTotal = given.reduce((sum, outcome) => sum + outcome.chance, 0);
+  const missing = outcomes.length - given.length;
+  if (missing > 0 && outcomes.length > 1) issues.push(`${label} has ${missing} outcomes without a chance`);
+  const share = missing > 0 ? Math.max(0, 1 - givenTotal) / missing || 1 / outcomes.length : 0;
+  for (const outcome of outcomes) {
+    if (Number.isNaN(outcome.chance)) outcome.chance = share;
+  }
+  const total = outcomes.reduce((sum, outcome) => sum + outcome.chance, 0);
+  if (missing === 0 && Math.abs(total - 1) > 0.01) issues.push(`${label} chances add up to ${total.toFixed(2)}, rescaled`);
+  for (const outcome of outcomes) outcome.chance /= total;
+};
+
+// Accepts a list of outcomes or an older single-outcome option with the effect on the option itself
+const sanitizeOption = (raw: unknown, label: string, level: number, stageIds: string[], issues: string[]): AnomalyOption | null => {
+  if (!isRecord(raw)) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+
+  const text = cleanText(raw.text, MAX_OPTION_TEXT_LENGTH);
+  if (!text) {
+    issues.push(`${label} has no text`);
+    return null;
+  }
+
+  let rawOutcomes: unknown[] = Array.isArray(raw.outcomes) ? raw.outcomes : [{ ...raw, chance: 1 }];
+  if (rawOutcomes.length > MAX_OUTCOMES) {
+    issues.push(`${label} has ${rawOutcomes.length} outcomes, keeping the first ${MAX_OUTCOMES}`);
+    rawOutcomes = rawOutcomes.slice(0, MAX_OUTCOMES);
+  }
+  const outcomes = rawOutcomes
+    .map((outcome, i) => sanitizeOutcome(outcome, `${label} outcome ${i + 1}`, level, stageIds, issues))
+    .filter((outcome): outcome is AnomalyOutcome => outcome !== null);
+  if (outcomes.length === 0) {
+    issues.push(`${label} has no usable outcomes`);
+    return null;
+  }
+  normalizeChances(outcomes, label, issues);
+  return { text, outcomes };
+};
+
+// Every stage needs a risky and a safe choice; the first such pair wins, a big heal can be either
+// depending on what it's paired with. Returns the rejection reason if there is no pair.
+const sanitizeOptions = (raw: unknown, label: string, level: number, stageIds: string[], issues: string[]): AnomalyOption[] | string => {
+  if (!Array.isArray(raw)) return `${label} options is not a list`;
+  const options = raw
+    .map((option, i) => sanitizeOption(option, `${label} option ${i + 1}`, level, stageIds, issues))
+    .filter((option): option is AnomalyOption => option !== null);
+
+  if (options.length < OPTION_COUNT) return `${label} has only ${options.length} usable options`;
+  if (options.length > OPTION_COUNT) issues.push(`${label} has ${options.length} options, keeping the best pair`);
+
+  if (!options.some(option => isRiskyOption(option, level))) return `${label} has no risky option`;
+  for (let risky = 0; risky < options.length; risky++) {
+    if (!isRiskyOption(options[risky], level)) continue;
+    const safe = options.findIndex((option, i) => i !== risky && isSafeOption(option));
+    if (safe === -1) continue;
+    // Keep the order the model chose
+    return [risky, safe].sort((a, b) => a - b).map(i => options[i]);
+  }
+  return `${label} has no safe option`;
+};
+
+// Stages can only lead further down the list, so every encounter ends. Broken stages are dropped
+// along with any outcome leading to them, working backwards so those links are known by then.
+const sanitizeStages = (raw: unknown, level: number, issues: string[]): AnomalyStage[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    issues.push('stages is not a list, ignoring it');
+    return [];
+  }
+  let list: unknown[] = raw;
+  if (list.length > MAX_STAGES) {
+    issues.push(`${list.length} stages, keeping the first ${MAX_STAGES}`);
+    list = list.slice(0, MAX_STAGES);
+  }
+
+  const stages: AnomalyStage[] = [];
+  for (let i = list.length - 1; i >= 0; i--) {
+    const data = list[i];
+    const label = `stage ${i + 1}`;
+    if (!isRecord(data)) {
+      issues.push(`${label} is not an object, dropping it`);
+      continue;
+    }
+    const id = typeof data.id === 'string' ? data.id.trim() : '';
+    if (!id || stages.some(stage => stage.id === id)) {
+      issues.push(`${label} has a missing or repeated id, dropping it`);
+      continue;
+    }
+    const description = cleanText(data.description, MAX_DESCRIPTION_LENGTH);
+    const options = sanitizeOptions(data.options, label, level, stages.map(stage => stage.id), issues);
+    if (!description || typeof options === 'string') {
+      issues.push(typeof options === 'string' ? `${options}, dropping it` : `${label} has no description, dropping it`);
+      continue;
+    }
+    stages.unshift({ id, description, options });
+  }
+  return stages;
+};
+
+export const validateAnomaly = (raw: unknown, level: number): AnomalyValidation => {
+  const issues: string[] = [];
+  const reject = (reason: string): AnomalyValidation => ({ anomaly: null, issues: [...issues, reason] });
+
+  if (!isRecord(raw)) return reject('response is not an object');
+
+  let title = cleanText(raw.title, MAX_TITLE_LENGTH);
+  if (!title) {
+    issues.push('missing title');
+    title = 'Unidentified Anomaly';
+  }
+  let description = cleanText(raw.description, MAX_DESCRIPTION_LENGTH);
+  if (!description) {
+    issues.push('missing description');
+    description = "Your sensors can't make sense of what they're seeing.";
+  }
+
+  const stages = sanitizeStages(raw.stages, level, issues);
+  const options = sanitizeOptions(raw.options, 'opening stage', level, stages.map(stage => stage.id), issues);
+  if (typeof options === 'string') return reject(options);
+
+  const anomaly: AnomalyEvent = { title, description, options };
+  if (stages.length > 0) anomaly.stages = stages;
+  return { anomaly, issues };
+};
@@ -1,158 +1,302 @@
 // Simple synth sounds using Web Audio API to avoid asset loading issues in production.
 // This requires no external files, ensuring it works on any hosting platform.
+//
+// Every sound plays as a voice with its own gain and stereo panner, feeding the SFX bus. The SFX
+// and music buses feed the master, which the volume settings and mute act on. Each sound has a
+// minimum gap between plays and a cap on overlapping copies, and once too many voices are playing
+// the least important, oldest one is cut, so a screen full of enemies firing can't turn into noise.
+// Louder sounds duck the music for a moment so they cut through it (see musicService).
+
+export type SoundId = 'PLAYER_SHOOT' | 'ENEMY_SHOOT' | 'EXPLOSION' | 'COLLECT' | 'HEALTH' | 'DAMAGE' | 'DASH' | 'ANOMALY';
+
+export interface Volumes {
+  master: number; // 0-1
+  sfx: number;
+  music: number;
+}
+
+interface SoundDef {
+  minGap: number; // Seconds before the same sound may start again
+  maxVoices: number; // Overlapping copies before the oldest is cut
+  priority: number; // Higher is kept when voices are stolen
+  duck?: number; // How far it dips the music, 0-1
+  play: (ctx: AudioContext, out: AudioNode, t: number) => number; // Schedules the sound, returns its length in seconds
+}
+
+interface Voice {
+  sound: SoundId;
+  priority: number;
+  gain: GainNode;
+  startedAt: number;
+  endsAt: number;
+}
+
+const MAX_VOICES = 24;
+const STEAL_FADE = 0.02; // Seconds to fade out a stolen voice, cutting dead would click
+const VOLUME_SMOOTHING = 0.05; // Time constant for volume changes, so dragging a slider doesn't crackle
+const DUCK_ATTACK = 0.01;
+const DUCK_HOLD = 0.12; // Seconds the music stays down before it recovers
+const DUCK_RELEASE = 0.15;
 
 let audioCtx: AudioContext | null = null;
+let master: GainNode | null = null;
+let sfxBus: GainNode | null = null;
+let musicBus: GainNode | null = null;
+let ducker: GainNode | null = null; // Between the music bus and the master
+let paused = false;
+let enabled = true;
+let volumes: Volumes = { master: 1, sfx: 1, music: 1 };
+let voices: Voice[] = [];
+const lastPlayed: Partial<Record<SoundId, number>> = {};
+
+// Sliders are linear but hearing isn't, squaring makes the middle of the slider sound like it
+const toGain = (volume: number) => Math.max(0, Math.min(1, volume)) ** 2;
+
+const applyVolumes = () => {
+  if (!audioCtx || !master || !sfxBus || !musicBus) return;
+  const t = audioCtx.currentTime;
+  master.gain.setTargetAtTime(enabled ? toGain(volumes.master) : 0, t, VOLUME_SMOOTHING);
+  sfxBus.gain.setTargetAtTime(toGain(volumes.sfx), t, VOLUME_SMOOTHING);
+  musicBus.gain.setTargetAtTime(toGain(volumes.music), t, VOLUME_SMOOTHING);
+};
 
 const initAudio = () => {
   if (!audioCtx) {
     audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    master = audioCtx.createGain();
+    master.connect(audioCtx.destination);
+    sfxBus = audioCtx.createGain();
+    sfxBus.connect(master);
+    ducker = audioCtx.createGain();
+    ducker.connect(master);
+    musicBus = audioCtx.createGain();
+    musicBus.connect(ducker);
+    // Start at the saved levels rather than fading in from full volume
+    master.gain.value = enabled ? toGain(volumes.master) : 0;
+    sfxBus.gain.value = toGain(volumes.sfx);
+    musicBus.gain.value = toGain(volumes.music);
   }
-  if (audioCtx.state === 'suspended') {
+  // A paused game stays silent until it resumes
+  if (audioCtx.state === 'suspended' && !paused) {
     audioCtx.resume().catch(() => {});
   }
   return audioCtx;
 };
 
-export const playPlayerShootSound = () => {
-  const ctx = initAudio();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-
-  osc.connect(gain);
-  gain.connect(ctx.destination);
-
-  osc.type = 'square';
-  osc.frequency.setValueAtTime(880, ctx.currentTime);
-  osc.frequency.exponentialRampToValueAtTime(110, ctx.currentTime + 0.15);
-
-  gain.gain.setValueAtTime(0.05, ctx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.15);
-
-  osc.start();
-  osc.stop(ctx.currentTime + 0.15);
+// Browsers only allow audio after a user gesture, so the main menu calls this on its first click
+export const unlockAudio = () => {
+  initAudio();
 };
 
-export const playEnemyShootSound = () => {
-  const ctx = initAudio();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-
-  osc.connect(gain);
-  gain.connect(ctx.destination);
+// Freezes everything that is playing (used while the game is paused)
+export const pauseAudio = () => {
+  paused = true;
+  audioCtx?.suspend().catch(() => {});
+};
 
-  osc.type = 'sawtooth';
-  osc.frequency.setValueAtTime(440, ctx.currentTime);
-  osc.frequency.exponentialRampToValueAtTime(110, ctx.currentTime + 0.2);
+export const resumeAudio = () => {
+  paused = false;
+  audioCtx?.resume().catch(() => {});
+};
 
-  gain.gain.setValueAtTime(0.05, ctx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.2);
+export const setSoundEnabled = (on: boolean) => {
+  enabled = on;
+  applyVolumes();
+};
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.2);
+export const setVolumes = (next: Volumes) => {
+  volumes = { ...next };
+  applyVolumes();
 };
 
-export const playExplosionSound = () => {
+// Where the music plays into, setting up audio if nothing has yet
+export const getMusicOutput = () => {
   const ctx = initAudio();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-
-  osc.connect(gain);
-  gain.connect(ctx.destination);
-
-  osc.type = 'sawtooth';
-  osc.frequency.setValueAtTime(100, ctx.currentTime);
-  osc.frequency.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
-
-  gain.gain.setValueAtTime(0.1, ctx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
+  return { ctx, out: musicBus! as AudioNode };
+};
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.3);
+const duckMusic = (depth: number, now: number) => {
+  const gain = ducker!.gain;
+  const level = Math.min(gain.value, 1 - depth); // A quieter sound can't undo a deeper duck
+  gain.cancelScheduledValues(now);
+  gain.setTargetAtTime(level, now, DUCK_ATTACK);
+  gain.setTargetAtTime(1, now + DUCK_HOLD, DUCK_RELEASE);
 };
 
-export const playCollectSound = () => {
-  const ctx = initAudio();
+// Stereo position for something at `x` in an arena `width` wide; kept off the far edges
+export const getPan = (x: number, width: number) => width > 0 ? Math.max(-1, Math.min(1, (x / width) * 2 - 1)) * 0.8 : 0;
+
+interface Sweep {
+  type: OscillatorType;
+  from: number; // Hz
+  to: number;
+  volume: number;
+  duration: number; // Seconds
+  curve: 'linear' | 'exponential'; // For both the pitch slide and the fade out
+  slideTime?: number; // When the pitch slide ends, the whole sound by default
+}
+
+// One oscillator sliding in pitch while it fades, which is what most of these sounds are
+const sweep = (ctx: AudioContext, out: AudioNode, t: number, { type, from, to, volume, duration, curve, slideTime = duration }: Sweep) => {
   const osc = ctx.createOscillator();
   const gain = ctx.createGain();
 
   osc.connect(gain);
-  gain.connect(ctx.destination);
-
-  osc.type = 'sine';
-  osc.frequency.setValueAtTime(1200, ctx.currentTime);
-  osc.frequency.linearRampToValueAtTime(1800, ctx.currentTime + 0.1);
+  gain.connect(out);
+
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, t);
+  gain.gain.setValueAtTime(volume, t);
+  if (curve === 'exponential') {
+    osc.frequency.exponentialRampToValueAtTime(to, t + slideTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
+  } else {
+    osc.frequency.linearRampToValueAtTime(to, t + slideTime);
+    gain.gain.linearRampToValueAtTime(0.001, t + duration);
+  }
 
-  gain.gain.setValueAtTime(0.05, ctx.currentTime);
-  gain.gain.linearRampToValueAtTime(0.001, ctx.currentTime + 0.1);
+  osc.start(t);
+  osc.stop(t + duration);
+  return osc;
+};
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.1);
+const SOUNDS: Record<SoundId, SoundDef> = {
+  PLAYER_SHOOT: {
+    minGap: 0.04,
+    maxVoices: 4,
+    priority: 2,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'square', from: 880, to: 110, volume: 0.05, duration: 0.15, curve: 'exponential' });
+      return 0.15;
+    }
+  },
+  ENEMY_SHOOT: {
+    minGap: 0.08,
+    maxVoices: 3,
+    priority: 0,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'sawtooth', from: 440, to: 110, volume: 0.03, duration: 0.2, curve: 'exponential' });
+      return 0.2;
+    }
+  },
+  EXPLOSION: {
+    minGap: 0.03,
+    maxVoices: 6,
+    priority: 1,
+    duck: 0.3,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'sawtooth', from: 100, to: 0.01, volume: 0.1, duration: 0.3, curve: 'exponential' });
+      return 0.3;
+    }
+  },
+  COLLECT: {
+    minGap: 0.03,
+    maxVoices: 4,
+    priority: 1,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'sine', from: 1200, to: 1800, volume: 0.05, duration: 0.1, curve: 'linear' });
+      return 0.1;
+    }
+  },
+  HEALTH: {
+    minGap: 0.1,
+    maxVoices: 2,
+    priority: 3,
+    duck: 0.3,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'sine', from: 440, to: 880, volume: 0.1, duration: 0.4, curve: 'linear', slideTime: 0.2 });
+      return 0.4;
+    }
+  },
+  DAMAGE: {
+    minGap: 0.08,
+    maxVoices: 2,
+    priority: 4,
+    duck: 0.5,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'square', from: 150, to: 100, volume: 0.1, duration: 0.1, curve: 'linear' });
+      return 0.1;
+    }
+  },
+  DASH: {
+    minGap: 0.1,
+    maxVoices: 2,
+    priority: 3,
+    play: (ctx, out, t) => {
+      sweep(ctx, out, t, { type: 'triangle', from: 220, to: 880, volume: 0.08, duration: 0.18, curve: 'exponential', slideTime: 0.08 });
+      return 0.18;
+    }
+  },
+  ANOMALY: {
+    minGap: 0.5,
+    maxVoices: 1,
+    priority: 5,
+    duck: 0.6,
+    play: (ctx, out, t) => {
+      const osc = sweep(ctx, out, t, { type: 'triangle', from: 50, to: 200, volume: 0.05, duration: 1.5, curve: 'linear' });
+
+      // LFO for pulsing effect
+      const lfo = ctx.createOscillator();
+      lfo.frequency.value = 10;
+      const lfoGain = ctx.createGain();
+      lfoGain.gain.value = 500;
+      lfo.connect(lfoGain);
+      lfoGain.connect(osc.frequency);
+      lfo.start(t);
+      lfo.stop(t + 1.5);
+      return 1.5;
+    }
+  }
 };
 
-export const playHealthSound = () => {
-  const ctx = initAudio();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
+const stealVoice = (voice: Voice, now: number) => {
+  voice.gain.gain.cancelScheduledValues(now);
+  voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
+  voice.gain.gain.linearRampToValueAtTime(0, now + STEAL_FADE);
+  voices = voices.filter(v => v !== voice);
+};
 
-  osc.connect(gain);
-  gain.connect(ctx.destination);
+// Frees room for a new voice of `def`, or returns false if it isn't worth playing
+const makeRoom = (id: SoundId, def: SoundDef, now: number) => {
+  const ended = voices.filter(v => v.endsAt <= now);
+  for (const voice of ended) voice.gain.disconnect();
+  voices = voices.filter(v => v.endsAt > now);
 
-  osc.type = 'sine';
-  osc.frequency.setValueAtTime(440, ctx.currentTime);
-  osc.frequency.linearRampToValueAtTime(880, ctx.currentTime + 0.2);
-  
-  gain.gain.setValueAtTime(0.1, ctx.currentTime);
-  gain.gain.linearRampToValueAtTime(0.001, ctx.currentTime + 0.4);
+  const same = voices.filter(v => v.sound === id);
+  if (same.length >= def.maxVoices) stealVoice(same[0], now);
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.4);
+  if (voices.length >= MAX_VOICES) {
+    // Least important first, then oldest
+    const victim = voices.reduce((a, b) => b.priority < a.priority || (b.priority === a.priority && b.startedAt < a.startedAt) ? b : a);
+    if (victim.priority > def.priority) return false;
+    stealVoice(victim, now);
+  }
+  return true;
 };
 
-export const playDamageSound = () => {
+// `pan` runs from -1 (left) to 1 (right), see getPan
+export const playSound = (id: SoundId, pan = 0) => {
   const ctx = initAudio();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-
-  osc.connect(gain);
-  gain.connect(ctx.destination);
+  const def = SOUNDS[id];
+  const now = ctx.currentTime;
 
-  osc.type = 'square';
-  osc.frequency.setValueAtTime(150, ctx.currentTime);
-  osc.frequency.linearRampToValueAtTime(100, ctx.currentTime + 0.1);
-
-  gain.gain.setValueAtTime(0.1, ctx.currentTime);
-  gain.gain.linearRampToValueAtTime(0.001, ctx.currentTime + 0.1);
-
-  osc.start();
-  osc.stop(ctx.currentTime + 0.1);
-};
+  const last = lastPlayed[id];
+  if (last !== undefined && now - last < def.minGap) return;
+  if (!makeRoom(id, def, now)) return;
+  lastPlayed[id] = now;
 
-export const playAnomalySound = () => {
-  const ctx = initAudio();
-  const osc = ctx.createOscillator();
   const gain = ctx.createGain();
+  // Older Safari has no stereo panner, it just plays in the middle
+  if (ctx.createStereoPanner) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    gain.connect(panner);
+    panner.connect(sfxBus!);
+  } else {
+    gain.connect(sfxBus!);
+  }
 
-  osc.connect(gain);
-  gain.connect(ctx.destination);
-
-  osc.type = 'triangle';
-  osc.frequency.setValueAtTime(50, ctx.currentTime);
-  osc.frequency.linearRampToValueAtTime(200, ctx.currentTime + 1.5);
-
-  // LFO for pulsing effect
-  const lfo = ctx.createOscillator();
-  lfo.frequency.value = 10;
-  const lfoGain = ctx.createGain();
-  lfoGain.gain.value = 500;
-  lfo.connect(lfoGain);
-  lfoGain.connect(osc.frequency);
-  lfo.start();
-
-  gain.gain.setValueAtTime(0.05, ctx.currentTime);
-  gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 1.5);
-
-  osc.start();
-  osc.stop(ctx.currentTime + 1.5);
-  lfo.stop(ctx.currentTime + 1.5);
+  const duration = def.play(ctx, gain, now);
+  if (def.duck) duckMusic(def.duck, now);
+  voices.push({ sound: id, priority: def.priority, gain, startedAt: now, endsAt: now + duration });
 };
-
@@ -0,0 +1,79 @@
+import { Vector2 } from "../types";
+
+// Controllers through the Gamepad API. Pads the browser reports with the "standard" mapping
+// have the same button numbers whatever the brand, so those are preferred. The API has no
+// events for buttons or sticks, the game polls a snapshot every frame instead.
+
+export type PadButton = 'CONFIRM' | 'BACK' | 'DASH' | 'PAUSE' | 'MENU' | 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+export interface Deadzones {
+  stick: number; // 0-1 of the stick's travel
+  trigger: number;
+}
+
+export interface PadState {
+  move: Vector2; // Left stick, each axis -1 to 1 once past the deadzone
+  aim: Vector2; // Right stick
+  fire: boolean; // Right trigger past its deadzone
+  altFire: boolean; // Left trigger
+  buttons: Record<PadButton, boolean>; // Held this frame
+}
+
+// Standard mapping: A/Cross, B/Circle, the bumpers, Back/Share, Start/Options and the d-pad
+const BUTTON_INDICES: Record<PadButton, number[]> = {
+  CONFIRM: [0],
+  BACK: [1],
+  DASH: [4, 5],
+  MENU: [8],
+  PAUSE: [9],
+  UP: [12],
+  DOWN: [13],
+  LEFT: [14],
+  RIGHT: [15]
+};
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+
+export const PAD_BUTTONS = Object.keys(BUTTON_INDICES) as PadButton[];
+
+export const getGamepad = (): Gamepad | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  return pads.find(pad => pad.mapping === 'standard') ?? pads[0] ?? null;
+};
+
+// Radial deadzone, rescaled so the stick still covers the whole range just past it
+const applyDeadzone = (x: number, y: number, deadzone: number): Vector2 => {
+  const length = Math.hypot(x, y);
+  if (length <= deadzone) return { x: 0, y: 0 };
+  const scale = Math.min(1, (length - deadzone) / (1 - deadzone)) / length;
+  return { x: x * scale, y: y * scale };
+};
+
+export const readGamepad = (deadzones: Deadzones): PadState | null => {
+  const pad = getGamepad();
+  if (!pad) return null;
+
+  const axis = (i: number) => pad.axes[i] ?? 0;
+  const pressed = (i: number) => pad.buttons[i]?.pressed ?? false;
+  const buttons = {} as Record<PadButton, boolean>;
+  for (const button of PAD_BUTTONS) buttons[button] = BUTTON_INDICES[button].some(pressed);
+
+  return {
+    move: applyDeadzone(axis(0), axis(1), deadzones.stick),
+    aim: applyDeadzone(axis(2), axis(3), deadzones.stick),
+    fire: (pad.buttons[RIGHT_TRIGGER]?.value ?? 0) > deadzones.trigger,
+    altFire: (pad.buttons[LEFT_TRIGGER]?.value ?? 0) > deadzones.trigger,
+    buttons
+  };
+};
+
+// Rumble where the browser and pad support it, silently nothing otherwise
+export const vibrateGamepad = (strength: number, duration: number) => {
+  const actuator = getGamepad()?.vibrationActuator;
+  actuator?.playEffect?.('dual-rumble', {
+    duration,
+    strongMagnitude: Math.min(1, strength),
+    weakMagnitude: Math.min(1, strength * 0.5)
+  }).catch(() => {});
+};
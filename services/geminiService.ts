@@ -1,47 +1,80 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnomalyEvent } from "../types";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { WeaponType } from "../types";
+import { AnomalyProvider, buildAnomalyPrompt, parseAnomalyJson } from "./anomalyProvider";
+import { MODIFIER_IDS } from "../game/effects";
 
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The same choice shape is used by the opening stage and every follow-up stage
+const OPTIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: "The text shown on the button" },
+      outcomes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            chance: { type: Type.NUMBER, description: "Probability from 0 to 1" },
+            description: { type: Type.STRING, description: "Short flavor text of what happens after clicking" },
+            next: { type: Type.STRING, description: "Id of the stage to continue with" },
+            effects: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  effect: { type: Type.STRING, enum: ['HEAL', 'DAMAGE', 'SCRAP', 'WEAPON', 'SHIELD', 'SLOW_MO', 'MODIFIER', 'NOTHING'] },
+                  value: { type: Type.NUMBER },
+                  weaponType: { type: Type.STRING, enum: Object.values(WeaponType) },
+                  modifier: { type: Type.STRING, enum: MODIFIER_IDS, description: "Only for 'MODIFIER' effects" }
+                },
+                required: ["effect", "value"]
+              }
+            }
+          },
+          required: ["chance", "description", "effects"]
+        }
+      }
+    },
+    required: ["text", "outcomes"]
+  }
+};
 
-export const generateAnomaly = async (level: number, currentScrap: number): Promise<AnomalyEvent> => {
-  try {
+// Created on first use, so a missing key only matters if Gemini is actually picked
+let ai: GoogleGenAI | null = null;
+
+export const geminiProvider: AnomalyProvider = {
+  id: 'GEMINI',
+  name: 'Gemini',
+  description: 'Fresh encounters written by gemini-2.5-flash, needs an API key',
+  isAvailable: () => !!process.env.API_KEY,
+  generate: async (request) => {
+    ai ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
     const model = 'gemini-2.5-flash';
-    
-    const prompt = `
-      You are the AI Game Master for a sci-fi space shooter. The player has discovered a mysterious cosmic anomaly.
-      Current Level: ${level}.
-      Current Scrap (Currency): ${currentScrap}.
-      
-      Generate a unique, mysterious, or dangerous short encounter description.
-      Provide 2 distinct choices for the player to interact with it.
-      One choice should be risky but rewarding, the other safe or strategic.
-      
-      The 'effect' field must be one of: 'HEAL', 'DAMAGE', 'SCRAP', 'WEAPON', 'NOTHING'.
-      The 'value' field should be a number representing the magnitude (e.g., 20 health, 50 scrap).
-    `;
 
     const response = await ai.models.generateContent({
       model: model,
-      contents: prompt,
+      contents: buildAnomalyPrompt(request),
       config: {
+        abortSignal: request.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
             title: { type: Type.STRING },
             description: { type: Type.STRING },
-            options: {
+            options: OPTIONS_SCHEMA,
+            stages: {
               type: Type.ARRAY,
+              description: "Optional follow-up stages, reached through an outcome's 'next'",
               items: {
                 type: Type.OBJECT,
                 properties: {
-                  text: { type: Type.STRING, description: "The text shown on the button" },
-                  outcomeDescription: { type: Type.STRING, description: "Short flavor text of what happens after clicking" },
-                  effect: { type: Type.STRING, enum: ['HEAL', 'DAMAGE', 'SCRAP', 'WEAPON', 'NOTHING'] },
-                  value: { type: Type.NUMBER }
+                  id: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  options: OPTIONS_SCHEMA
                 },
-                required: ["text", "outcomeDescription", "effect", "value"]
+                required: ["id", "description", "options"]
               }
             }
           },
@@ -54,29 +87,7 @@ export const generateAnomaly = async (level: number, currentScrap: number): Prom
     if (!text) {
       throw new Error("No text returned from Gemini");
     }
-    
-    return JSON.parse(text) as AnomalyEvent;
 
-  } catch (error) {
-    console.error("Gemini generation failed:", error);
-    // Fallback event if API fails
-    return {
-      title: "Static Interference",
-      description: "The ship's sensors are picking up ghost signals, but the AI cannot decode them due to network failure.",
-      options: [
-        {
-          text: "Reboot Systems (Heal)",
-          outcomeDescription: "You spend time fixing the hull.",
-          effect: "HEAL",
-          value: 20
-        },
-        {
-          text: "Scavenge Debris",
-          outcomeDescription: "You find some loose scrap floating nearby.",
-          effect: "SCRAP",
-          value: 50
-        }
-      ]
-    };
+    return parseAnomalyJson(text);
   }
 };
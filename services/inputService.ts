@@ -0,0 +1,137 @@
+import { ControlScheme, FireMode, InputAction, KeyBindings } from "../types";
+import { KEY_CODES } from "../constants";
+import { PadState } from "./gamepadService";
+
+// The game asks whether an action is held, not whether a key is. Keyboard and mouse go through
+// the player's bindings; a controller's buttons are fixed, and its sticks and the touch
+// joysticks are analog so they feed movement and aim directly (see GameCanvas.readInput).
+
+export const MOUSE_BUTTONS = ['MouseLeft', 'MouseMiddle', 'MouseRight']; // By MouseEvent.button
+export const MAX_BINDINGS = 2; // Keys per action
+
+export const INPUT_ACTIONS: Record<InputAction, { label: string }> = {
+  MOVE_UP: { label: 'Thrust Up' },
+  MOVE_DOWN: { label: 'Thrust Down' },
+  MOVE_LEFT: { label: 'Thrust Left' },
+  MOVE_RIGHT: { label: 'Thrust Right' },
+  AIM_UP: { label: 'Aim Up' },
+  AIM_DOWN: { label: 'Aim Down' },
+  AIM_LEFT: { label: 'Aim Left' },
+  AIM_RIGHT: { label: 'Aim Right' },
+  FIRE: { label: 'Fire' },
+  ALT_FIRE: { label: 'Alt Fire' },
+  DASH: { label: 'Dash' },
+  PAUSE: { label: 'Pause' }
+};
+
+export const INPUT_ACTION_IDS = Object.keys(INPUT_ACTIONS) as InputAction[];
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  MOVE_UP: [KEY_CODES.W],
+  MOVE_DOWN: [KEY_CODES.S],
+  MOVE_LEFT: [KEY_CODES.A],
+  MOVE_RIGHT: [KEY_CODES.D],
+  AIM_UP: [KEY_CODES.UP],
+  AIM_DOWN: [KEY_CODES.DOWN],
+  AIM_LEFT: [KEY_CODES.LEFT],
+  AIM_RIGHT: [KEY_CODES.RIGHT],
+  FIRE: [KEY_CODES.MOUSE_LEFT, KEY_CODES.SPACE],
+  ALT_FIRE: [KEY_CODES.E],
+  DASH: [KEY_CODES.SHIFT, KEY_CODES.MOUSE_RIGHT],
+  PAUSE: [KEY_CODES.ESCAPE, KEY_CODES.P]
+};
+
+export type ActionState = Record<InputAction, boolean>;
+
+export const FIRE_MODES: Record<FireMode, { name: string; description: string }> = {
+  AUTO: { name: 'Auto', description: 'The guns fire on their own' },
+  HOLD: { name: 'Hold', description: 'Fire while the fire button is held' },
+  TOGGLE: { name: 'Toggle', description: 'The fire button switches the guns on and off' }
+};
+
+export const FIRE_MODE_IDS = Object.keys(FIRE_MODES) as FireMode[];
+
+export const CONTROL_SCHEMES: Record<ControlScheme, { name: string; description: string }> = {
+  MOUSE: { name: 'Mouse', description: 'Thrust keys move, the mouse aims' },
+  TWIN_STICK: { name: 'Twin Stick', description: 'Thrust keys move, aim keys point the guns' },
+  TANK: { name: 'Tank', description: 'Thrust left and right turn the ship, up and down drive it forwards and back' }
+};
+
+export const CONTROL_SCHEME_IDS = Object.keys(CONTROL_SCHEMES) as ControlScheme[];
+
+// Saved bindings may predate an action or be hand-edited, anything unusable falls back to the default.
+// An action the save predates only gets the default keys nothing else uses yet, so it doesn't
+// steal them from what the player already has.
+export const sanitizeBindings = (raw: unknown): KeyBindings => {
+  const saved = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const bindings = { ...DEFAULT_BINDINGS };
+  const missing: InputAction[] = [];
+  for (const action of INPUT_ACTION_IDS) {
+    const codes = saved[action];
+    if (Array.isArray(codes) && codes.every(code => typeof code === 'string')) {
+      bindings[action] = codes.slice(0, MAX_BINDINGS);
+    } else {
+      missing.push(action);
+    }
+  }
+  if (missing.length < INPUT_ACTION_IDS.length) {
+    const used = new Set(INPUT_ACTION_IDS.filter(action => !missing.includes(action)).flatMap(action => bindings[action]));
+    for (const action of missing) bindings[action] = DEFAULT_BINDINGS[action].filter(code => !used.has(code));
+  }
+  return bindings;
+};
+
+export const readActions = (bindings: KeyBindings, keys: Record<string, boolean>, pad: PadState | null): ActionState => {
+  const state = {} as ActionState;
+  for (const action of INPUT_ACTION_IDS) state[action] = bindings[action].some(code => keys[code]);
+  if (pad) {
+    state.FIRE ||= pad.fire;
+    state.ALT_FIRE ||= pad.altFire;
+    state.DASH ||= pad.buttons.DASH;
+  }
+  return state;
+};
+
+// Keys bound to more than one action, with the actions that share them
+export const findConflicts = (bindings: KeyBindings): Map<string, InputAction[]> => {
+  const users = new Map<string, InputAction[]>();
+  for (const action of INPUT_ACTION_IDS) {
+    for (const code of bindings[action]) users.set(code, [...(users.get(code) ?? []), action]);
+  }
+  return new Map([...users].filter(([, actions]) => actions.length > 1));
+};
+
+// Binds `code` to one of an action's slots, leaving every other action as it is
+export const bindKey = (bindings: KeyBindings, action: InputAction, slot: number, code: string | null): KeyBindings => {
+  const codes = [...bindings[action]];
+  if (code === null) codes.splice(slot, 1);
+  else if (slot < codes.length) codes[slot] = code;
+  else codes.push(code);
+  return { ...bindings, [action]: codes.filter((c, i) => codes.indexOf(c) === i) };
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Escape: 'ESC',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+  AltLeft: 'L-ALT',
+  AltRight: 'R-ALT',
+  MouseLeft: 'LMB',
+  MouseMiddle: 'MMB',
+  MouseRight: 'RMB'
+};
+
+// Short label for a key code, e.g. 'KeyW' -> 'W'
+export const formatKey = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'NUM ').toUpperCase();
+
+// The first key of each action, or '?' if it has none
+export const formatBinding = (bindings: KeyBindings, action: InputAction) =>
+  bindings[action].length > 0 ? formatKey(bindings[action][0]) : '?';
@@ -0,0 +1,264 @@
+import { getMusicOutput } from "./audioService";
+
+// Procedural soundtrack, synthesised like the sound effects so there are no files to load.
+// A step sequencer schedules sixteenth notes a little ahead of the audio clock. In combat it layers
+// bass, drums and an arpeggio on a minor progression, adding layers as the fight heats up; layer
+// and tempo changes wait for the next bar so they land on the beat. Anomalies get an eerie drone
+// with stray bell notes instead. Everything plays into the music bus, which SFX duck.
+
+export type MusicMood = 'COMBAT' | 'EERIE';
+
+export interface MusicIntensity {
+  enemies: number; // Enemies on screen
+  health: number; // Player health, 0-1
+  boss: boolean;
+}
+
+type Layer = 'BASS' | 'KICK' | 'HATS' | 'ARP' | 'SNARE' | 'ALARM';
+
+interface Chord {
+  root: number; // MIDI note
+  intervals: number[]; // Semitones above the root
+}
+
+const STEPS_PER_BAR = 16;
+const TEMPO = 112; // BPM
+const BOSS_TEMPO = 128;
+const LOOKAHEAD = 0.12; // Seconds of notes scheduled ahead of the clock
+const SCHEDULE_INTERVAL = 25; // ms between scheduler runs
+const MOOD_FADE = 0.6; // Time constant for crossfading between moods
+
+const BUSY_ENEMIES = 5; // Hats come in
+const SWARM_ENEMIES = 12; // Arpeggio comes in
+const LOW_HEALTH = 0.3; // Alarm comes in
+
+// Am - F - C - G
+const PROGRESSION: Chord[] = [
+  { root: 45, intervals: [0, 3, 7, 12] },
+  { root: 41, intervals: [0, 4, 7, 12] },
+  { root: 48, intervals: [0, 4, 7, 12] },
+  { root: 43, intervals: [0, 4, 7, 12] }
+];
+const BASS_STEPS = [0, 3, 6, 8, 11, 14];
+const EERIE_SCALE = [69, 71, 73, 75, 77, 79]; // Whole tone, nothing resolves
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let mood: MusicMood = 'COMBAT';
+let intensity: MusicIntensity = { enemies: 0, health: 1, boss: false };
+let layers = new Set<Layer>();
+let tempo = TEMPO;
+let step = 0;
+let nextStepTime = 0;
+
+// Built once per audio context
+let combatGain: GainNode | null = null;
+let eerieGain: GainNode | null = null;
+let noise: AudioBuffer | null = null;
+let drone: { oscs: OscillatorNode[]; gain: GainNode } | null = null;
+
+const midiToFreq = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+const pickLayers = ({ enemies, health, boss }: MusicIntensity): Set<Layer> => {
+  const picked = new Set<Layer>(['BASS']);
+  if (enemies > 0 || boss) picked.add('KICK');
+  if (enemies >= BUSY_ENEMIES || boss) picked.add('HATS');
+  if (enemies >= SWARM_ENEMIES || boss) picked.add('ARP');
+  if (boss) picked.add('SNARE');
+  if (health > 0 && health < LOW_HEALTH) picked.add('ALARM');
+  return picked;
+};
+
+const setupGraph = (ctx: AudioContext, out: AudioNode) => {
+  if (combatGain && combatGain.context === ctx) return;
+  combatGain = ctx.createGain();
+  combatGain.gain.value = 0;
+  combatGain.connect(out);
+  eerieGain = ctx.createGain();
+  eerieGain.gain.value = 0;
+  eerieGain.connect(out);
+
+  // One second of white noise for the drums
+  noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = noise.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+};
+
+const note = (ctx: AudioContext, out: AudioNode, t: number, freq: number, type: OscillatorType, volume: number, length: number, cutoff?: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, t);
+  gain.gain.setValueAtTime(volume, t);
+  gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+
+  if (cutoff !== undefined) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = cutoff;
+    osc.connect(filter);
+    filter.connect(gain);
+  } else {
+    osc.connect(gain);
+  }
+  gain.connect(out);
+  osc.start(t);
+  osc.stop(t + length);
+};
+
+const kick = (ctx: AudioContext, out: AudioNode, t: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.setValueAtTime(150, t);
+  osc.frequency.exponentialRampToValueAtTime(40, t + 0.12);
+  gain.gain.setValueAtTime(0.25, t);
+  gain.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+  osc.connect(gain);
+  gain.connect(out);
+  osc.start(t);
+  osc.stop(t + 0.2);
+};
+
+const hit = (ctx: AudioContext, out: AudioNode, t: number, filterType: BiquadFilterType, freq: number, volume: number, length: number) => {
+  const src = ctx.createBufferSource();
+  src.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = filterType;
+  filter.frequency.value = freq;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(volume, t);
+  gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+  src.connect(filter);
+  filter.connect(gain);
+  gain.connect(out);
+  src.start(t);
+  src.stop(t + length);
+};
+
+const scheduleCombatStep = (ctx: AudioContext, out: AudioNode, t: number, bar: number, beat: number, stepLength: number) => {
+  const chord = PROGRESSION[bar % PROGRESSION.length];
+
+  if (layers.has('BASS') && BASS_STEPS.includes(beat)) {
+    const octave = beat === 8 ? 0 : -12;
+    // The bass opens up as the fight gets busier
+    note(ctx, out, t, midiToFreq(chord.root + octave), 'sawtooth', 0.09, stepLength * 1.8, layers.has('ARP') ? 900 : 500);
+  }
+  if (layers.has('KICK') && beat % 4 === 0) kick(ctx, out, t);
+  if (layers.has('HATS') && beat % 4 === 2) hit(ctx, out, t, 'highpass', 7000, 0.05, 0.05);
+  if (layers.has('SNARE') && (beat === 4 || beat === 12)) hit(ctx, out, t, 'bandpass', 1800, 0.12, 0.15);
+  if (layers.has('ARP')) {
+    const up = bar % 2 === 0 ? 24 : 12;
+    note(ctx, out, t, midiToFreq(chord.root + up + chord.intervals[beat % chord.intervals.length]), 'square', 0.025, stepLength * 0.9, 3000);
+  }
+  if (layers.has('ALARM') && beat % 8 === 0) note(ctx, out, t, midiToFreq(81), 'square', 0.02, 0.08);
+};
+
+const scheduleEerieStep = (ctx: AudioContext, out: AudioNode, t: number, beat: number) => {
+  // A stray bell every so often, the drone does the rest
+  if (beat % 4 !== 0 || Math.random() > 0.3) return;
+  const pitch = EERIE_SCALE[Math.floor(Math.random() * EERIE_SCALE.length)];
+  note(ctx, out, t, midiToFreq(pitch), 'sine', 0.04, 2.5);
+  note(ctx, out, t, midiToFreq(pitch) * 2.01, 'sine', 0.01, 1.2); // Slightly off overtone
+};
+
+const startDrone = (ctx: AudioContext) => {
+  if (drone) return;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.setTargetAtTime(0.06, ctx.currentTime, 1);
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 400;
+  filter.Q.value = 6;
+  filter.connect(gain);
+  gain.connect(eerieGain!);
+
+  // A root and its tritone, slightly detuned so they beat against each other
+  const oscs = [33, 39.06].map(pitch => {
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.value = midiToFreq(pitch);
+    osc.connect(filter);
+    osc.start();
+    return osc;
+  });
+
+  // The filter slowly breathes
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = 0.15;
+  const lfoDepth = ctx.createGain();
+  lfoDepth.gain.value = 250;
+  lfo.connect(lfoDepth);
+  lfoDepth.connect(filter.frequency);
+  lfo.start();
+
+  drone = { oscs: [...oscs, lfo], gain };
+};
+
+const stopDrone = (ctx: AudioContext) => {
+  if (!drone) return;
+  const { oscs, gain } = drone;
+  const now = ctx.currentTime;
+  gain.gain.cancelScheduledValues(now);
+  gain.gain.setTargetAtTime(0, now, 0.4);
+  for (const osc of oscs) osc.stop(now + 2);
+  drone = null;
+};
+
+const applyMood = (ctx: AudioContext) => {
+  const now = ctx.currentTime;
+  combatGain!.gain.setTargetAtTime(mood === 'COMBAT' ? 1 : 0, now, MOOD_FADE);
+  eerieGain!.gain.setTargetAtTime(mood === 'EERIE' ? 1 : 0, now, MOOD_FADE);
+  if (mood === 'EERIE') startDrone(ctx);
+  else stopDrone(ctx);
+};
+
+const schedule = () => {
+  const { ctx } = getMusicOutput();
+  while (nextStepTime < ctx.currentTime + LOOKAHEAD) {
+    const beat = step % STEPS_PER_BAR;
+    const bar = Math.floor(step / STEPS_PER_BAR);
+    if (beat === 0) {
+      layers = pickLayers(intensity);
+      tempo = intensity.boss ? BOSS_TEMPO : TEMPO;
+    }
+    const stepLength = 60 / tempo / 4;
+
+    if (mood === 'COMBAT') scheduleCombatStep(ctx, combatGain!, nextStepTime, bar, beat, stepLength);
+    else scheduleEerieStep(ctx, eerieGain!, nextStepTime, beat);
+
+    nextStepTime += stepLength;
+    step++;
+  }
+};
+
+export const startMusic = () => {
+  if (timer !== null) return;
+  const { ctx, out } = getMusicOutput();
+  setupGraph(ctx, out);
+  step = 0;
+  nextStepTime = ctx.currentTime + 0.05;
+  applyMood(ctx);
+  timer = setInterval(schedule, SCHEDULE_INTERVAL);
+};
+
+export const stopMusic = () => {
+  if (timer === null) return;
+  clearInterval(timer);
+  timer = null;
+  const { ctx } = getMusicOutput();
+  const now = ctx.currentTime;
+  combatGain!.gain.setTargetAtTime(0, now, 0.2);
+  eerieGain!.gain.setTargetAtTime(0, now, 0.2);
+  stopDrone(ctx);
+};
+
+export const setMusicMood = (next: MusicMood) => {
+  if (next === mood) return;
+  mood = next;
+  if (timer !== null) applyMood(getMusicOutput().ctx);
+};
+
+// Called every frame while playing; only read at the start of each bar
+export const setMusicIntensity = (next: MusicIntensity) => {
+  intensity = next;
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { generateOfflineAnomaly } from './offlineAnomalyService';
+import { validateAnomaly } from './anomalyValidator';
+
+// The content pack is rolled at random, so every level gets enough rolls to reach each template
+const ROLLS_PER_LEVEL = 100;
+
+describe('offline anomalies', () => {
+  it('pass the validator with nothing to repair at every level', () => {
+    for (let level = 1; level <= 12; level++) {
+      for (let i = 0; i < ROLLS_PER_LEVEL; i++) {
+        expect(validateAnomaly(generateOfflineAnomaly(level), level).issues).toEqual([]);
+      }
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { AnomalyEffect, AnomalyEffectType, AnomalyEvent, AnomalyOption, AnomalyOutcome, ModifierId, WeaponType } from "../types";
+import { getEffectModifier } from "../game/effects";
+import { AnomalyProvider } from "./anomalyProvider";
+import { getEffectBudget } from "./anomalyValidator";
+import pack from "../content/anomalies.json";
+
+// Procedural anomalies from the bundled content pack, so the game works with no key and no
+// network. Outcome weights become the chances shown to the player, {word} placeholders are
+// filled from the pack's word lists and values grow with the sector level.
+
+type Range = number[]; // [min, max]
+
+interface EffectTemplate {
+  effect: AnomalyEffectType;
+  value: Range;
+  weaponType?: string; // Left out, a WEAPON effect picks one or upgrades the current weapon
+  modifier?: string; // For MODIFIER effects; a value of [0, 0] lasts the whole run
+}
+
+interface OutcomeTemplate {
+  weight: number; // Becomes the outcome's chance, relative to the option's other outcomes
+  description: string;
+  effects: EffectTemplate[];
+  next?: string;
+}
+
+interface OptionTemplate {
+  text: string;
+  outcomes: OutcomeTemplate[];
+}
+
+interface AnomalyTemplate {
+  id: string;
+  weight: number;
+  minLevel?: number;
+  title: string;
+  description: string;
+  options: OptionTemplate[];
+  stages?: { id: string; description: string; options: OptionTemplate[] }[];
+}
+
+interface ContentPack {
+  version: number;
+  levelScaling: number; // Extra magnitude per level above the first, as a fraction
+  words: Record<string, string[]>;
+  templates: AnomalyTemplate[];
+}
+
+const CONTENT: ContentPack = pack as ContentPack;
+const RECENT_LIMIT = 3; // Don't repeat any of the last few templates
+
+const recent: string[] = [];
+
+const pickWeighted = <T extends { weight: number }>(items: T[]): T => {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  let roll = Math.random() * total;
+  for (const item of items) {
+    roll -= item.weight;
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+};
+
+const pickFrom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const rollRange = ([min, max]: Range) => min + Math.floor(Math.random() * (max - min + 1));
+
+// Placeholders resolve once per anomaly, so "{color}" is the same colour throughout
+const fillWords = (text: string, chosen: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const words = CONTENT.words[key];
+    if (!words) return match;
+    chosen[key] ??= pickFrom(words);
+    return chosen[key];
+  });
+
+const rollEffect = (template: EffectTemplate, level: number): AnomalyEffect => {
+  const effect: AnomalyEffect = { effect: template.effect, value: rollRange(template.value) };
+  if (template.modifier) effect.modifier = template.modifier as ModifierId;
+  if (template.effect === 'WEAPON') {
+    // Tiers creep up every few levels; half the time it's a new weapon rather than an upgrade
+    effect.value = Math.min(5, effect.value + Math.floor((level - 1) / 3));
+    const type = template.weaponType ?? (Math.random() < 0.5 ? pickFrom(Object.values(WeaponType)) : undefined);
+    if (type) effect.weaponType = type as WeaponType;
+  } else if (!getEffectModifier(effect)) {
+    effect.value = Math.round(effect.value * (1 + (level - 1) * CONTENT.levelScaling)); // Durations stay put
+  }
+  // Held to the same budgets as model output; whole-run mutators have no duration to clamp
+  if (!(effect.modifier && effect.value === 0)) {
+    const budget = getEffectBudget(effect.effect, level, effect.modifier);
+    effect.value = Math.min(budget.max, Math.max(budget.min, effect.value));
+  }
+  return effect;
+};
+
+// Values are rolled now, which outcome happens is rolled when the option is picked
+const rollOption = (option: OptionTemplate, level: number, chosen: Record<string, string>): AnomalyOption => {
+  const total = option.outcomes.reduce((sum, outcome) => sum + outcome.weight, 0);
+  return {
+    text: fillWords(option.text, chosen),
+    outcomes: option.outcomes.map(outcome => {
+      const rolled: AnomalyOutcome = {
+        chance: outcome.weight / total,
+        description: fillWords(outcome.description, chosen),
+        effects: outcome.effects.map(effect => rollEffect(effect, level))
+      };
+      if (outcome.next) rolled.next = outcome.next;
+      return rolled;
+    })
+  };
+};
+
+export const generateOfflineAnomaly = (level: number): AnomalyEvent => {
+  const unlocked = CONTENT.templates.filter(t => (t.minLevel ?? 1) <= level);
+  const fresh = unlocked.filter(t => !recent.includes(t.id));
+  const template = pickWeighted(fresh.length > 0 ? fresh : unlocked);
+
+  recent.push(template.id);
+  if (recent.length > RECENT_LIMIT) recent.shift();
+
+  const chosen: Record<string, string> = {};
+  const anomaly: AnomalyEvent = {
+    title: fillWords(template.title, chosen),
+    description: fillWords(template.description, chosen),
+    options: template.options.map(option => rollOption(option, level, chosen))
+  };
+  if (template.stages) {
+    anomaly.stages = template.stages.map(stage => ({
+      id: stage.id,
+      description: fillWords(stage.description, chosen),
+      options: stage.options.map(option => rollOption(option, level, chosen))
+    }));
+  }
+  return anomaly;
+};
+
+export const offlineProvider: AnomalyProvider = {
+  id: 'OFFLINE',
+  name: 'Offline',
+  description: 'Procedural encounters from the built-in content pack, no network needed',
+  isAvailable: () => true,
+  generate: async ({ level }) => generateOfflineAnomaly(level)
+};
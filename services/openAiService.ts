@@ -0,0 +1,55 @@
+import { AnomalyProvider, ANOMALY_JSON_FORMAT, buildAnomalyPrompt, parseAnomalyJson } from "./anomalyProvider";
+
+// Any server speaking the OpenAI chat completions API: Ollama, LM Studio, llama.cpp, vLLM...
+// Local servers usually don't need a key. OPENAI_API_KEY is baked into the build, so it's only
+// sent to the server the build names in OPENAI_API_URL, never to whatever URL is typed into Settings.
+
+const getApiKey = (url: string) => {
+  const key = process.env.OPENAI_API_KEY;
+  const keyUrl = process.env.OPENAI_API_URL;
+  if (!key || !keyUrl) return undefined;
+  try {
+    return new URL(url).origin === new URL(keyUrl).origin ? key : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const openAiProvider: AnomalyProvider = {
+  id: 'OPENAI',
+  name: 'Local LLM',
+  description: 'Any OpenAI-compatible server, such as Ollama or LM Studio',
+  isAvailable: settings => settings.llmUrl.trim() !== '' && settings.llmModel.trim() !== '',
+  generate: async (request, settings) => {
+    const url = settings.llmUrl.trim().replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const key = getApiKey(url);
+    if (key) headers.Authorization = `Bearer ${key}`;
+
+    const response = await fetch(`${url}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: settings.llmModel.trim(),
+        messages: [
+          { role: 'system', content: ANOMALY_JSON_FORMAT },
+          { role: 'user', content: buildAnomalyPrompt(request) }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.9
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`LLM server replied ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text: unknown = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) {
+      throw new Error("No text returned from the LLM server");
+    }
+
+    return parseAnomalyJson(text);
+  }
+};
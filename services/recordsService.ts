@@ -0,0 +1,60 @@
+import { GameMode, Records, RunRecord, ScoreEntry } from "../types";
+
+// High scores, run history and personal bests, kept in localStorage between sessions.
+// Every update returns a new Records object and saves it, so React state can hold it directly.
+
+const STORAGE_KEY = 'vibe-shooter:records';
+
+export const MAX_HIGH_SCORES = 10;
+export const MAX_RUN_HISTORY = 50;
+
+const emptyRecords = (): Records => ({ highScores: [], history: [], bests: {} });
+
+export const loadRecords = (): Records => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyRecords();
+    const parsed = JSON.parse(raw);
+    return {
+      highScores: Array.isArray(parsed.highScores) ? parsed.highScores : [],
+      history: Array.isArray(parsed.history) ? parsed.history : [],
+      bests: parsed.bests && typeof parsed.bests === 'object' ? parsed.bests : {}
+    };
+  } catch (e) {
+    console.warn("Could not read records, starting fresh", e);
+    return emptyRecords();
+  }
+};
+
+const saveRecords = (records: Records) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.warn("Could not save records", e);
+  }
+};
+
+export const getPersonalBest = (records: Records, mode: GameMode) => records.bests[mode] ?? 0;
+
+// Adds a finished run to the history and bumps the personal best for its mode
+export const addRunRecord = (records: Records, run: RunRecord): Records => {
+  const next: Records = {
+    ...records,
+    history: [run, ...records.history].slice(0, MAX_RUN_HISTORY),
+    bests: { ...records.bests, [run.mode]: Math.max(getPersonalBest(records, run.mode), run.score) }
+  };
+  saveRecords(next);
+  return next;
+};
+
+export const isHighScore = (records: Records, score: number) =>
+  score > 0 && (records.highScores.length < MAX_HIGH_SCORES || score > records.highScores[records.highScores.length - 1].score);
+
+export const addHighScore = (records: Records, entry: ScoreEntry): Records => {
+  const highScores = [...records.highScores, entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+  const next = { ...records, highScores };
+  saveRecords(next);
+  return next;
+};
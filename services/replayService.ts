@@ -0,0 +1,87 @@
+import { GameMode, RunEnd, RunSummary, WeaponType } from "../types";
+import { InputRun, REPLAY_VERSION, Replay, ReplayCommand } from "../game/replay";
+import { MODIFIER_IDS } from "../game/effects";
+import { UPGRADE_IDS } from "../game/upgrades";
+
+// Replays as downloadable JSON files, so a run can be shared and played back elsewhere.
+
+export const exportReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vibe-shooter-replay-${new Date(replay.recordedAt).toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Commands are applied straight to the world during playback, so each needs everything its type uses
+const isValidCommand = (command: unknown): command is ReplayCommand => {
+  if (!isRecord(command) || !isFiniteNumber(command.tick)) return false;
+  const { ship, arena } = command;
+  switch (command.type) {
+    case 'SHIP':
+      return isRecord(ship) && isFiniteNumber(ship.health) && isFiniteNumber(ship.maxHealth)
+        && isRecord(ship.weapon) && Object.values(WeaponType).includes(ship.weapon.type as WeaponType) && isFiniteNumber(ship.weapon.tier)
+        && isRecord(ship.upgrades) && UPGRADE_IDS.every(id => isFiniteNumber((ship.upgrades as Record<string, unknown>)[id]));
+    case 'EFFECT':
+      return typeof command.effect === 'string' && (MODIFIER_IDS as string[]).includes(command.effect) && (command.seconds === null || isFiniteNumber(command.seconds));
+    case 'ARENA':
+      return isRecord(arena) && isFiniteNumber(arena.width) && isFiniteNumber(arena.height);
+    case 'ANOMALY':
+      return typeof command.choice === 'string';
+    default:
+      return false;
+  }
+};
+
+const isValidRun = (run: unknown): run is InputRun =>
+  Array.isArray(run) && run.length >= 4 && run.length <= 8 && run[0] > 0
+    && run.slice(0, 3).every(isFiniteNumber) && (run[3] === null || isFiniteNumber(run[3])) && run.slice(4).every(isFiniteNumber);
+
+const RUN_ENDS: RunEnd[] = ['DESTROYED', 'TIME_UP', 'SURVIVED'];
+
+// The result is only shown on the game over screen, but it's shown as is
+const isValidResult = (result: unknown): result is RunSummary =>
+  isRecord(result) && Object.values(GameMode).includes(result.mode as GameMode) && RUN_ENDS.includes(result.end as RunEnd)
+    && [result.score, result.wave, result.level, result.duration, result.kills, result.scrapCollected].every(isFiniteNumber)
+    && typeof result.cause === 'string';
+
+// Checks the file really is a replay this version can play, throws a readable reason if not
+export const parseReplay = (raw: unknown): Replay => {
+  if (!isRecord(raw)) throw new Error("Not a replay file");
+  const { arena, inputs, commands, result } = raw;
+  if (raw.version !== REPLAY_VERSION) throw new Error(`Replay version ${raw.version} isn't supported`);
+  if (!isFiniteNumber(raw.seed)) throw new Error("Replay is missing its seed");
+  if (!Object.values(GameMode).includes(raw.mode as GameMode)) throw new Error("Replay has an unknown game mode");
+  if (!isRecord(arena) || !isFiniteNumber(arena.width) || !isFiniteNumber(arena.height)) throw new Error("Replay is missing its arena");
+  if (!Array.isArray(inputs) || inputs.length === 0) throw new Error("Replay has no input");
+  if (!inputs.every(isValidRun)) throw new Error("Replay input is corrupted");
+  if (!Array.isArray(commands) || !commands.every(isValidCommand)) throw new Error("Replay commands are corrupted");
+  if (result !== undefined && result !== null && !isValidResult(result)) throw new Error("Replay result is corrupted");
+  return {
+    version: REPLAY_VERSION,
+    seed: raw.seed,
+    mode: raw.mode as GameMode,
+    arena: { width: arena.width, height: arena.height },
+    recordedAt: isFiniteNumber(raw.recordedAt) ? raw.recordedAt : 0,
+    inputs,
+    commands: [...commands].sort((a, b) => a.tick - b.tick),
+    result: isValidResult(result) ? result : null
+  };
+};
+
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Not a replay file");
+  }
+  return parseReplay(raw);
+};
@@ -0,0 +1,106 @@
+import { GameState, PlayerStats, ShipUpgrades } from "../types";
+import { World, WorldSnapshot, snapshotWorld } from "../game/world";
+import { Replay } from "../game/replay";
+import { createDefaultUpgrades } from "../game/upgrades";
+import { createDashState, getDashStatus } from "../game/dash";
+
+// The in-progress run, kept in localStorage so a refresh or closed tab doesn't lose it.
+// Saves carry a version; older ones are migrated forward step by step when loaded.
+
+const STORAGE_KEY = 'vibe-shooter:save';
+
+export const SAVE_VERSION = 7;
+
+export interface SaveGame {
+  version: number;
+  savedAt: number;
+  state: GameState; // Where the run was when saved, so an interrupted anomaly or shop can reopen
+  world: WorldSnapshot;
+  stats: PlayerStats;
+  anomalies: string[]; // Choices made so far, for the run history
+  replay: Replay | null; // Recording so far, null if the run started before replays existed or the replay format changed
+}
+
+type SaveData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SaveData =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Old saves come straight from localStorage, a part that isn't an object migrates as an empty one
+const recordOf = (value: unknown): SaveData => isRecord(value) ? value : {};
+
+// Each entry upgrades a save from that version to the next one. Bump SAVE_VERSION and add a step
+// here whenever the shape of the world, stats or the save itself changes.
+const MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {
+  1: save => ({ ...save, replay: null }),
+  2: save => ({ ...save, world: { ...recordOf(save.world), effects: [] } }),
+  3: save => ({ ...save, stats: { ...recordOf(save.stats), modifiers: [] } }),
+  4: save => {
+    // Dashing arrived along with its two upgrades
+    const world = recordOf(save.world);
+    const upgrades = { ...createDefaultUpgrades(), ...recordOf(world.upgrades) } as ShipUpgrades;
+    const dash = createDashState(upgrades);
+    return {
+      ...save,
+      world: { ...world, upgrades, dash },
+      stats: { ...recordOf(save.stats), upgrades, dash: getDashStatus(dash, upgrades) }
+    };
+  },
+  5: save => ({ ...save, replay: null }), // Recorded before analog movement, it wouldn't play back the same
+  6: save => ({ ...save, replay: null }) // Same again for the charge cannon's charge-up
+};
+
+// The parts the game reads before anything else; the rest is in the shape createSave wrote
+const isCurrentSave = (save: SaveData): save is SaveData & SaveGame =>
+  save.version === SAVE_VERSION && typeof save.savedAt === 'number' && typeof save.state === 'string'
+    && isRecord(save.world) && isRecord(save.stats) && Array.isArray(save.anomalies);
+
+export const migrateSave = (raw: unknown): SaveGame | null => {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || raw.version > SAVE_VERSION) return null;
+  let save = raw;
+  for (let version = raw.version; version < SAVE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    save = { ...migrate(save), version: version + 1 };
+  }
+  return isCurrentSave(save) ? save : null;
+};
+
+export const createSave = (world: World, stats: PlayerStats, anomalies: string[], state: GameState, replay: Replay | null): SaveGame => ({
+  version: SAVE_VERSION,
+  savedAt: Date.now(),
+  state,
+  world: snapshotWorld(world),
+  stats: { ...stats },
+  anomalies: [...anomalies],
+  replay: replay && JSON.parse(JSON.stringify(replay))
+});
+
+export const loadSave = (): SaveGame | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const save = migrateSave(JSON.parse(raw));
+    if (!save) console.warn("Discarding a save this version can't read");
+    return save;
+  } catch (e) {
+    console.warn("Could not read the saved run", e);
+    return null;
+  }
+};
+
+export const writeSave = (save: SaveGame) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch (e) {
+    console.warn("Could not save the run", e);
+  }
+};
+
+export const clearSave = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("Could not clear the saved run", e);
+  }
+};
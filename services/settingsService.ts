@@ -0,0 +1,47 @@
+import { Settings } from "../types";
+import { DEFAULT_BINDINGS, sanitizeBindings } from "./inputService";
+import { DEFAULT_TOUCH_LAYOUT, sanitizeTouchLayout } from "./touchService";
+
+// Settings live in localStorage so they survive reloads. Anything missing or unreadable
+// falls back to the defaults rather than failing.
+
+const STORAGE_KEY = 'vibe-shooter:settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  soundEnabled: true,
+  masterVolume: 0.8,
+  sfxVolume: 0.8,
+  musicVolume: 0.6,
+  autoPause: true,
+  stickDeadzone: 0.2,
+  triggerDeadzone: 0.3,
+  vibration: true,
+  bindings: DEFAULT_BINDINGS,
+  fireMode: 'AUTO',
+  controlScheme: 'MOUSE',
+  aimAssist: true,
+  touchLayout: DEFAULT_TOUCH_LAYOUT,
+  anomalyProvider: 'GEMINI',
+  llmUrl: 'http://localhost:11434/v1',
+  llmModel: 'llama3.2'
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_SETTINGS };
+    const saved = JSON.parse(raw);
+    return { ...DEFAULT_SETTINGS, ...saved, bindings: sanitizeBindings(saved.bindings), touchLayout: sanitizeTouchLayout(saved.touchLayout) };
+  } catch (e) {
+    console.warn("Could not read settings, using defaults", e);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save settings", e);
+  }
+};
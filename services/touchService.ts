@@ -0,0 +1,83 @@
+import { TouchLayout, Vector2 } from "../types";
+
+// On-screen controls for touch screens. The sticks float: each one anchors wherever a thumb lands
+// on its side of the screen and reads how far the thumb has pushed from there, so the ship can
+// creep or race. The layout only says where the sticks rest and where the buttons sit, as fractions
+// of the screen, so it fits any size or orientation.
+
+export const STICK_RADIUS = 50; // px at size 1, how far a thumb pushes for full strength
+export const KNOB_RADIUS = 20;
+export const BUTTON_SIZE = 64;
+const STICK_DEADZONE = 0.15; // Of the stick's radius
+
+export type TouchControl = 'moveStick' | 'aimStick' | 'dashButton' | 'pauseButton';
+
+export const TOUCH_CONTROLS: Record<TouchControl, { label: string }> = {
+  moveStick: { label: 'Move' },
+  aimStick: { label: 'Aim' },
+  dashButton: { label: 'Dash' },
+  pauseButton: { label: 'Pause' }
+};
+
+export const TOUCH_CONTROL_IDS = Object.keys(TOUCH_CONTROLS) as TouchControl[];
+
+export const DEFAULT_TOUCH_LAYOUT: TouchLayout = {
+  moveStick: { x: 0.12, y: 0.75 },
+  aimStick: { x: 0.88, y: 0.75 },
+  dashButton: { x: 0.92, y: 0.45 },
+  pauseButton: { x: 0.5, y: 0.08 },
+  size: 1,
+  opacity: 0.6
+};
+
+export const isTouchScreen = () =>
+  typeof window !== 'undefined' && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is Vector2 =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Saved layouts may predate a control or be hand-edited, anything unusable falls back to the default
+export const sanitizeTouchLayout = (raw: unknown): TouchLayout => {
+  const saved = isRecord(raw) ? raw : {};
+  const layout = { ...DEFAULT_TOUCH_LAYOUT };
+  for (const control of TOUCH_CONTROL_IDS) {
+    const point = saved[control];
+    if (isPoint(point)) layout[control] = { x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) };
+  }
+  if (isFiniteNumber(saved.size)) layout.size = clamp(saved.size, 0.5, 1.5);
+  if (isFiniteNumber(saved.opacity)) layout.opacity = clamp(saved.opacity, 0.1, 1);
+  return layout;
+};
+
+// Where a control sits on a screen this size
+export const getControlPosition = (layout: TouchLayout, control: TouchControl, width: number, height: number): Vector2 => ({
+  x: layout[control].x * width,
+  y: layout[control].y * height
+});
+
+// Touches left of halfway between the sticks' resting places move, the rest aim
+export const getStickSplit = (layout: TouchLayout, width: number) =>
+  (layout.moveStick.x + layout.aimStick.x) / 2 * width;
+
+// How far the thumb has pushed a stick from its anchor, each axis -1 to 1 and zero inside the
+// deadzone. Past the deadzone the range is rescaled so a gentle push still moves a little.
+export const readStick = (anchor: Vector2, thumb: Vector2, radius: number): Vector2 => {
+  const x = (thumb.x - anchor.x) / radius;
+  const y = (thumb.y - anchor.y) / radius;
+  const length = Math.hypot(x, y);
+  if (length <= STICK_DEADZONE) return { x: 0, y: 0 };
+  const scale = Math.min(1, (length - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / length;
+  return { x: x * scale, y: y * scale };
+};
+
+// Haptics on phones that support them, silently nothing otherwise
+export const vibrateDevice = (pattern: number | number[]) => {
+  if (typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(pattern);
+};
@@ -1,12 +1,22 @@
 export enum GameState {
   MENU = 'MENU',
-  LOADING = 'LOADING',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   ANOMALY = 'ANOMALY',
-  GAME_OVER = 'GAME_OVER'
+  SHOP = 'SHOP',
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY'
 }
 
+export enum GameMode {
+  ENDLESS = 'ENDLESS',
+  TIMED = 'TIMED',
+  WAVE_SURVIVAL = 'WAVE_SURVIVAL'
+}
+
+// How a run ended
+export type RunEnd = 'DESTROYED' | 'TIME_UP' | 'SURVIVED';
+
 export enum EntityType {
   PLAYER = 'PLAYER',
   ENEMY = 'ENEMY',
@@ -14,18 +24,82 @@ export enum EntityType {
   PARTICLE = 'PARTICLE',
   SCRAP = 'SCRAP',
   ANOMALY_CORE = 'ANOMALY_CORE',
-  HEALTH_PICKUP = 'HEALTH_PICKUP'
+  HEALTH_PICKUP = 'HEALTH_PICKUP',
+  DOCKING_BEACON = 'DOCKING_BEACON',
+  BOSS = 'BOSS'
+}
+
+export enum EnemyArchetype {
+  GRUNT = 'GRUNT',
+  RUSHER = 'RUSHER',
+  SNIPER = 'SNIPER',
+  SHIELD = 'SHIELD',
+  SPLITTER = 'SPLITTER',
+  DRONE = 'DRONE'
+}
+
+export type BossId = 'DREADNOUGHT' | 'LANCER' | 'HIVE';
+
+// Sweeping laser a boss is currently firing
+export interface BossBeam {
+  angle: number;
+  sweep: number; // radians per tick
+  warmup: number; // ticks of telegraph left
+  remaining: number; // ticks of sweeping left
 }
 
+export interface BossStatus {
+  name: string;
+  health: number;
+  maxHealth: number;
+  phase: number;
+  phaseCount: number;
+}
+
+// Buffs, debuffs and run-wide mutators anomalies can put on the run, defined in game/effects.ts
+export type ModifierId =
+  | 'SHIELD' | 'SLOW_MO' | 'ENEMY_SLOW' | 'ENEMY_HASTE' | 'OVERCHARGE' | 'BRITTLE_HULL'
+  | 'RICOCHET' | 'GRAVITY_WELL' | 'SCRAP_RUSH';
+
+export interface ModifierStatus {
+  id: ModifierId;
+  timeLeft: number | null; // Seconds, null when it lasts for the rest of the run
+}
+
+export enum WeaponType {
+  BLASTER = 'BLASTER',
+  SPREAD = 'SPREAD',
+  LASER = 'LASER',
+  HOMING = 'HOMING',
+  CHARGE = 'CHARGE'
+}
+
+export interface WeaponLoadout {
+  type: WeaponType;
+  tier: number;
+}
+
+export type UpgradeId = 'MAX_HEALTH' | 'THRUST' | 'FIRE_RATE' | 'MAGNET' | 'DAMAGE' | 'DASH_CHARGES' | 'DASH_STRIKE';
+
+// Purchased tier per permanent ship upgrade
+export type ShipUpgrades = Record<UpgradeId, number>;
+
 export interface Vector2 {
   x: number;
   y: number;
 }
 
+// Size of the play area the simulation keeps things inside
+export interface Arena {
+  width: number;
+  height: number;
+}
+
 export interface Entity {
   id: string;
   type: EntityType;
   pos: Vector2;
+  prevPos?: Vector2; // Position at the previous tick, for interpolated rendering
   vel: Vector2;
   radius: number;
   color: string;
@@ -37,6 +111,28 @@ export interface Entity {
   value?: number; // For scrap
   owner?: 'PLAYER' | 'ENEMY'; // Who fired the bullet
   lastShot?: number; // For rate of fire
+  damage?: number; // For bullets
+  weapon?: WeaponType; // Which weapon fired the bullet (drives rendering/behaviour)
+  pierce?: number; // Remaining enemies a bullet can pass through
+  hitIds?: string[]; // Enemies a piercing bullet already damaged
+  speed?: number; // For enemies, scaled by difficulty
+  fireInterval?: number; // For enemies, ms between shots
+  archetype?: EnemyArchetype; // For enemies
+  orbitDir?: 1 | -1; // Which way a sniper circles the player
+  generation?: number; // How many times a splitter has already split
+  bossId?: BossId; // For bosses
+  phase?: number; // Current boss phase (0-based)
+  attackIndex?: number; // Next pattern in the phase's cycle
+  attackTimer?: number; // ticks until the next pattern
+  spiralShots?: number; // Shots left in a running spiral volley
+  beam?: BossBeam;
+  dead?: boolean; // Flagged for removal at the end of the tick
+}
+
+// Dash energy meter for the HUD
+export interface DashStatus {
+  energy: number; // In charges, fractional while refilling
+  charges: number; // Meter size
 }
 
 export interface PlayerStats {
@@ -45,17 +141,141 @@ export interface PlayerStats {
   scrap: number;
   score: number;
   level: number;
+  wave: number;
+  weapon: WeaponLoadout;
+  upgrades: ShipUpgrades;
+  boss: BossStatus | null; // Active boss fight, drives the boss health bar
+  mode: GameMode;
+  timeLeft: number | null; // Seconds, only in timed mode
+  modifiers: ModifierStatus[]; // Active anomaly effects, for the HUD
+  dash: DashStatus;
+}
+
+export interface ScoreEntry {
+  initials: string;
+  score: number;
+  mode: GameMode;
+  wave: number;
+  level: number;
+  date: number;
+}
+
+// What the game reports when a run ends
+export interface RunSummary {
+  mode: GameMode;
+  end: RunEnd;
+  score: number;
+  wave: number;
+  level: number;
+  duration: number; // Seconds of game time
+  kills: number;
+  scrapCollected: number;
+  cause: string; // What killed the ship, or how the run was won
+}
+
+// A finished run as kept in the run history
+export interface RunRecord extends RunSummary {
+  date: number;
+  anomalies: string[]; // "Title: choice" for every anomaly resolved during the run
+}
+
+// Everything kept between sessions about past runs
+export interface Records {
+  highScores: ScoreEntry[]; // Best first
+  history: RunRecord[]; // Newest first
+  bests: Partial<Record<GameMode, number>>; // Kept apart so they survive history rolling over
+}
+
+// Banner shown over the HUD (wave start, level up...)
+export interface Announcement {
+  id: number;
+  title: string;
+  subtitle?: string;
+}
+
+// Timed effects last `value` seconds on the world clock, everything else applies at once.
+// SHIELD and SLOW_MO are shorthands for the modifiers of the same name.
+export type TimedEffectType = Extract<ModifierId, 'SHIELD' | 'SLOW_MO'>;
+export type AnomalyEffectType = 'HEAL' | 'DAMAGE' | 'SCRAP' | 'WEAPON' | 'NOTHING' | 'MODIFIER' | TimedEffectType;
+
+export interface AnomalyEffect {
+  effect: AnomalyEffectType;
+  value: number; // Hull, scrap, weapon tier or seconds depending on the effect; 0 seconds is the rest of the run
+  weaponType?: WeaponType; // Only for 'WEAPON' effects, left out to upgrade the current weapon
+  modifier?: ModifierId; // Only for 'MODIFIER' effects
+}
+
+// One way a choice can turn out. Its effects all apply together
+export interface AnomalyOutcome {
+  chance: number; // 0-1, an option's outcomes add up to 1
+  description: string;
+  effects: AnomalyEffect[]; // Empty when nothing happens
+  next?: string; // Id of the stage the encounter continues with, left out to end it
 }
 
 export interface AnomalyOption {
   text: string;
-  outcomeDescription: string;
-  effect: 'HEAL' | 'DAMAGE' | 'SCRAP' | 'WEAPON' | 'NOTHING';
-  value: number;
+  outcomes: AnomalyOutcome[]; // One is rolled when the option is picked
+}
+
+// A later step of a multi-stage encounter
+export interface AnomalyStage {
+  id: string;
+  description: string;
+  options: AnomalyOption[];
 }
 
 export interface AnomalyEvent {
   title: string;
   description: string;
-  options: AnomalyOption[];
+  options: AnomalyOption[]; // The opening stage
+  stages?: AnomalyStage[]; // Reached through an outcome's `next`, only ever forwards
+}
+
+// Where anomalies come from: Gemini, the built-in offline content pack, or any OpenAI-compatible server
+export type AnomalyProviderId = 'GEMINI' | 'OFFLINE' | 'OPENAI';
+
+// What the player can do, whichever device it comes from
+export type InputAction =
+  | 'MOVE_UP' | 'MOVE_DOWN' | 'MOVE_LEFT' | 'MOVE_RIGHT'
+  | 'AIM_UP' | 'AIM_DOWN' | 'AIM_LEFT' | 'AIM_RIGHT'
+  | 'FIRE' | 'ALT_FIRE' | 'DASH' | 'PAUSE';
+
+// Keyboard codes (KeyboardEvent.code) and mouse buttons ('MouseLeft' etc.) for each action
+export type KeyBindings = Record<InputAction, string[]>;
+
+// Whether the guns fire on their own, while FIRE is held, or are switched on and off by it
+export type FireMode = 'AUTO' | 'HOLD' | 'TOGGLE';
+
+// How the keyboard flies the ship: mouse aim, aim keys, or turning and thrusting like a tank
+export type ControlScheme = 'MOUSE' | 'TWIN_STICK' | 'TANK';
+
+// Where the on-screen touch controls sit, as fractions of the screen from its top left
+export interface TouchLayout {
+  moveStick: Vector2; // Where the stick rests until a thumb lands on its side of the screen
+  aimStick: Vector2;
+  dashButton: Vector2;
+  pauseButton: Vector2;
+  size: number; // Scale of the sticks and buttons, 1 is normal
+  opacity: number; // 0-1
+}
+
+// Player preferences, persisted between sessions
+export interface Settings {
+  soundEnabled: boolean;
+  masterVolume: number; // 0-1
+  sfxVolume: number;
+  musicVolume: number;
+  autoPause: boolean; // Pause when the tab is hidden or the window loses focus
+  stickDeadzone: number; // 0-1 of a controller stick's travel that is ignored
+  triggerDeadzone: number;
+  vibration: boolean; // Controller rumble and phone vibration when the ship is hit
+  bindings: KeyBindings;
+  fireMode: FireMode;
+  controlScheme: ControlScheme;
+  aimAssist: boolean; // Pull stick and touch aim towards nearby enemies
+  touchLayout: TouchLayout;
+  anomalyProvider: AnomalyProviderId;
+  llmUrl: string; // Base URL of the OpenAI-compatible server, e.g. a local model server
+  llmModel: string;
 }